@@ -1,22 +1,79 @@
 /**
- * Embeds src/audio-processor.js as a string in src/audioProcessorSource.generated.ts
- * so the worklet can be loaded via a Blob URL at runtime (no separate hosting).
+ * Embeds src/audio-processor.js (worklet) and src/decode-worker.js (Web Worker)
+ * as strings in src/*Source.generated.ts so both can be loaded via Blob URLs
+ * at runtime (no separate hosting).
+ *
+ * Neither scope can import modules, so src/webVoiceDsp.ts (codecs and the
+ * resampler, also used on the main thread) is compiled to plain JS and
+ * spliced in at their `// @embed webVoiceDsp.ts` line. The assembled worklet
+ * is also written to dist/audio-processor.js for apps serving it themselves
+ * (`workletPath`).
  */
-import { readFileSync, writeFileSync } from 'fs';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import typescript from 'typescript';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const root = join(__dirname, '..');
-const workletPath = join(root, 'src', 'audio-processor.js');
-const outPath = join(root, 'src', 'audioProcessorSource.generated.ts');
 
-const content = readFileSync(workletPath, 'utf8');
-const escaped = JSON.stringify(content);
+const SHARED_FILE = 'webVoiceDsp.ts';
+const EMBED_MARKER = /^\/\/ @embed webVoiceDsp\.ts.*$/m;
 
-const ts = `/** Generated by scripts/embed-worklet.mjs - do not edit */
-export const audioProcessorSource = ${escaped};
+const compileShared = () => {
+  const source = readFileSync(join(root, 'src', SHARED_FILE), 'utf8');
+  const { outputText } = typescript.transpileModule(source, {
+    compilerOptions: {
+      target: typescript.ScriptTarget.ES2020,
+      module: typescript.ModuleKind.ESNext,
+    },
+    fileName: SHARED_FILE,
+  });
+  // Top-level declarations become plain script globals
+  const code = outputText
+    .replace(/^export \{\};\s*$/m, '')
+    .replace(/^export (?=(const|let|function|class) )/gm, '')
+    .trim();
+  if (/^\s*(import|export)\b/m.test(code)) {
+    throw new Error(`${SHARED_FILE} must not import or re-export anything`);
+  }
+  return `// ---- ${SHARED_FILE} (spliced in by scripts/embed-worklet.mjs) ----\n${code}\n// ---- end ${SHARED_FILE} ----`;
+};
+
+const shared = compileShared();
+
+const assemble = (sourceFile) => {
+  const content = readFileSync(join(root, 'src', sourceFile), 'utf8');
+  if (!EMBED_MARKER.test(content)) {
+    throw new Error(`src/${sourceFile} has no "// @embed ${SHARED_FILE}" line`);
+  }
+  return content.replace(EMBED_MARKER, () => shared);
+};
+
+const embed = (sourceFile, outFile, exportName) => {
+  const content = assemble(sourceFile);
+  const escaped = JSON.stringify(content);
+
+  const ts = `/** Generated by scripts/embed-worklet.mjs - do not edit */
+export const ${exportName} = ${escaped};
 `;
 
-writeFileSync(outPath, ts);
-console.log('Embedded worklet source into src/audioProcessorSource.generated.ts');
+  writeFileSync(join(root, 'src', outFile), ts);
+  console.log(`Embedded ${sourceFile} into src/${outFile}`);
+  return content;
+};
+
+const worklet = embed(
+  'audio-processor.js',
+  'audioProcessorSource.generated.ts',
+  'audioProcessorSource'
+);
+embed(
+  'decode-worker.js',
+  'decodeWorkerSource.generated.ts',
+  'decodeWorkerSource'
+);
+
+mkdirSync(join(root, 'dist'), { recursive: true });
+writeFileSync(join(root, 'dist', 'audio-processor.js'), worklet);
+console.log('Wrote dist/audio-processor.js');
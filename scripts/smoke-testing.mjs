@@ -0,0 +1,185 @@
+/**
+ * Smoke test for `@gnani.ai/web-voice-hook/testing`: renders useWebSocketAudio
+ * in jsdom, with installMockAudio() for the mic and speakers, against a
+ * scripted WebVoiceMockServer, and walks one conversation end to end.
+ *
+ * src/ is transpiled to CommonJS under node_modules/.cache first (run
+ * embed-worklet.mjs before this; `pnpm run smoke` does both).
+ */
+import assert from 'assert/strict';
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { createRequire } from 'module';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { JSDOM } from 'jsdom';
+import typescript from 'typescript';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = join(__dirname, '..');
+const outDir = join(root, 'node_modules', '.cache', 'web-voice-smoke');
+
+/** Whole run, so a stuck step fails instead of hanging. */
+const TIMEOUT_MS = 30_000;
+/** Rate the client's AudioContext (and so the capture worklet) runs at. */
+const CONTEXT_RATE = 44_100;
+
+const transpileSources = () => {
+  rmSync(outDir, { recursive: true, force: true });
+  mkdirSync(outDir, { recursive: true });
+  const sources = readdirSync(join(root, 'src')).filter(
+    (file) => file.endsWith('.ts') && !file.endsWith('.d.ts')
+  );
+  for (const file of sources) {
+    const { outputText } = typescript.transpileModule(
+      readFileSync(join(root, 'src', file), 'utf8'),
+      {
+        compilerOptions: {
+          target: typescript.ScriptTarget.ES2020,
+          module: typescript.ModuleKind.CommonJS,
+          jsx: typescript.JsxEmit.ReactJSX,
+          esModuleInterop: true,
+        },
+        fileName: file,
+      }
+    );
+    writeFileSync(join(outDir, file.replace(/\.ts$/, '.js')), outputText);
+  }
+};
+
+// What a jsdom test environment does: the window's globals become Node's
+const installDom = () => {
+  const { window } = new JSDOM('<!doctype html><body></body>', {
+    url: 'http://localhost/',
+  });
+  for (const key of Object.getOwnPropertyNames(window)) {
+    if (key in globalThis) continue;
+    Object.defineProperty(globalThis, key, {
+      configurable: true,
+      writable: true,
+      value: window[key],
+    });
+  }
+  globalThis.window = globalThis;
+};
+
+const tone = (seconds, sampleRate, frequency = 440) =>
+  Float32Array.from(
+    { length: Math.round(seconds * sampleRate) },
+    (_, i) => 0.3 * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+
+const waitUntil = async (condition, what, timeoutMs = 5_000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+const main = async () => {
+  transpileSources();
+  installDom();
+
+  const require = createRequire(join(outDir, 'index.js'));
+  const React = require('react');
+  const { createRoot } = require('react-dom/client');
+  const { WebSocket: NodeWebSocket } = require('ws');
+  const { useWebSocketAudio } = require('./index.js');
+  const { WebVoiceMockServer, installMockAudio } = require('./testing.js');
+
+  const server = await WebVoiceMockServer.start({
+    script: [
+      // Fails (unknown encoding): recorded, and the next step still runs
+      { on: 'start', tts: { audio: tone(0.1, 16_000), encoding: 'bogus' } },
+      { on: 'media', tts: { audio: tone(0.5, 16_000), realtime: false } },
+    ],
+  });
+  const audio = installMockAudio();
+
+  let hook;
+  const App = () => {
+    hook = useWebSocketAudio({
+      websocketUrl: server.url,
+      // No preprocessing: the mic goes straight to the worklet
+      capture: { processing: [] },
+    });
+    return null;
+  };
+  const container = document.createElement('div');
+  const reactRoot = createRoot(container);
+  reactRoot.render(React.createElement(App));
+  await waitUntil(() => hook, 'the hook to render');
+
+  try {
+    hook.connect();
+    const start = await server.waitFor('start');
+    assert.equal(start.message.media_format.encoding, 'mulaw');
+    await waitUntil(() => hook.isConnected, 'isConnected');
+
+    // One second of mic audio: two full 400 ms chunks, µ-law at 1 byte/sample
+    audio.speak(tone(1, CONTEXT_RATE, 220));
+    await server.waitFor('media');
+    await waitUntil(() => server.messages('media').length >= 2, 'mic chunks');
+    for (const { payload } of server.messages('media')) {
+      assert.equal(payload.length, 0.4 * CONTEXT_RATE);
+    }
+
+    // The scripted reply is played and reported
+    await server.waitFor(
+      ({ event, message }) =>
+        event === 'TTS_PLAYING' && message.media.tts_playing === true
+    );
+    await waitUntil(() => hook.isPlaying, 'isPlaying');
+    await server.waitFor(
+      ({ event, message }) =>
+        event === 'TTS_PLAYING' && message.media.tts_playing === false
+    );
+    const played = audio.played.reduce(
+      (n, { samples }) => n + samples.length,
+      0
+    );
+    assert.ok(
+      Math.abs(played - 0.5 * CONTEXT_RATE) < 0.01 * CONTEXT_RATE,
+      `played ${played} samples`
+    );
+    assert.equal(server.errors.length, 1);
+    assert.match(server.errors[0].message, /bogus/);
+
+    hook.disconnect();
+    await waitUntil(() => !hook.isConnected, 'disconnect');
+
+    // A malformed frame is recorded, not thrown
+    const raw = new NodeWebSocket(server.url);
+    await new Promise((resolve) => raw.once('open', resolve));
+    raw.send('{not json');
+    await server.waitFor('malformed');
+    raw.close();
+  } finally {
+    reactRoot.unmount();
+    audio.uninstall();
+    await server.close();
+  }
+};
+
+const timer = setTimeout(() => {
+  console.error(`smoke: timed out after ${TIMEOUT_MS}ms`);
+  process.exit(1);
+}, TIMEOUT_MS);
+
+main().then(
+  () => {
+    clearTimeout(timer);
+    console.log('smoke: ok');
+    process.exit(0);
+  },
+  (error) => {
+    console.error('smoke: failed', error);
+    process.exit(1);
+  }
+);
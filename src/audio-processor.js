@@ -1,44 +1,594 @@
 /**
- * Audio Worklet: captures mic input and posts 400ms chunks to the main thread.
- * Must be served from a path reachable by the app (e.g. public/worklet/audio-processor.js).
- * Main thread sends base64 µ-law over WebSocket (see useWebVoice.ts).
+ * Audio Worklet: captures mic input and posts fixed-size chunks (400ms by
+ * default) to the main thread, each with a `sequence` number.
+ * Not runnable as is: scripts/embed-worklet.mjs splices webVoiceDsp.ts in at the
+ * `// @embed` line. For `workletPath`, serve the assembled dist/audio-processor.js.
+ * With `encoding`, chunks are also encoded here and posted as a transferable
+ * ArrayBuffer (`encoded`), plus its base64 (`payload`) with `base64`;
+ * otherwise the main thread encodes (see webVoiceClient.ts).
+ *
+ * processorOptions:
+ *   sampleRate        — AudioContext rate the mic arrives at.
+ *   targetSampleRate  — optional rate to post chunks at (anti-aliased resampling).
+ *   encoding          — optional 'mulaw' | 'alaw' | 'pcm16' (little-endian) to encode chunks in.
+ *   base64            — with encoding, also post the base64 `media` payload (JSON transport).
+ *   chunkDurationMs   — chunk length at the posted rate (default 400).
+ *   frameDurationMs   — optional codec frame length; chunks are whole frames,
+ *                       and flushed partial chunks are padded with silence.
+ *   vad               — optional VAD settings; posts { type: 'vad', speaking } on transitions.
+ *   echoSuppression   — optional echo suppression settings; the TTS being played
+ *                       arrives on the second input as the reference.
+ *   sendOnlyDuringSpeech — with vad, only post audio while speaking (plus pre-roll).
+ *   capture           — initial capture state (see below).
+ *
+ * Messages from the main thread:
+ *   { type: 'capture', state: 'open' | 'silence' | 'closed' } — 'silence' posts
+ *   zeros (mute), 'closed' posts nothing (mute / push-to-talk released). Closing
+ *   sends the partial buffer, then posts { type: 'flushed' }.
+ *   { type: 'flush' } — send the partial buffer now, then post { type: 'flushed' }
+ *   (capture stopping).
+ *
+ * Also registers 'web-voice-noise-gate', the `noiseGate` processing stage
+ * (see webVoiceProcessing.ts), which runs ahead of this processor.
  */
+
+/** Input is resampled in blocks this long, so chunks never wait on a whole input chunk. */
+const INPUT_BLOCK_MS = 10;
+/** Mean power treated as silence (-80 dBFS). */
+const SILENT_POWER = 1e-8;
+/** The reference level is held this long before decaying, covering delay misestimates. */
+const ECHO_DELAY_TOLERANCE_MS = 50;
+/** Audio stays unsuppressed this long after the user is last heard over the echo. */
+const DOUBLE_TALK_HOLD_MS = 150;
+/** Echo gain learning rate (per render quantum, in dB). */
+const ECHO_GAIN_RATE = 0.01;
+/** Noise gate level follower: decay time constant (ms). */
+const GATE_ENVELOPE_MS = 10;
+/** NLMS step size and regularisation (power per tap). */
+const NLMS_STEP = 0.5;
+const NLMS_REGULARISATION = 1e-6;
+
+// @embed webVoiceDsp.ts (codecs, WAV decoding, StreamingResampler)
+
+/**
+ * Energy + zero-crossing voice activity detector over fixed frames, with an
+ * adaptive noise floor, onset delay and hangover.
+ */
+class VoiceActivityDetector {
+  constructor(sampleRate, options) {
+    const {
+      energyThresholdDb,
+      noiseMarginDb,
+      maxZeroCrossingRate,
+      minSpeechMs,
+      hangoverMs,
+      frameMs,
+    } = options;
+    this.frame = new Float32Array(Math.floor((sampleRate * frameMs) / 1000));
+    this.frameIndex = 0;
+    this.energyThresholdDb = energyThresholdDb;
+    this.noiseMarginDb = noiseMarginDb;
+    this.maxZeroCrossingRate = maxZeroCrossingRate;
+    this.onsetFrames = Math.max(1, Math.ceil(minSpeechMs / frameMs));
+    this.hangoverFrames = Math.max(1, Math.ceil(hangoverMs / frameMs));
+    this.noiseFloorDb = energyThresholdDb - noiseMarginDb;
+    this.speechFrames = 0;
+    this.silenceFrames = 0;
+    this.speaking = false;
+  }
+
+  /** Feed one sample; returns 'start' or 'end' when the state flips, else null. */
+  push(sample) {
+    this.frame[this.frameIndex++] = sample;
+    if (this.frameIndex < this.frame.length) return null;
+    this.frameIndex = 0;
+    return this.analyseFrame();
+  }
+
+  reset() {
+    this.frameIndex = 0;
+    this.speechFrames = 0;
+    this.silenceFrames = 0;
+    this.speaking = false;
+  }
+
+  analyseFrame() {
+    const frame = this.frame;
+    let energy = 0;
+    let crossings = 0;
+    for (let i = 0; i < frame.length; i++) {
+      energy += frame[i] * frame[i];
+      if (i > 0 && frame[i] >= 0 !== frame[i - 1] >= 0) crossings++;
+    }
+    const energyDb = 10 * Math.log10(energy / frame.length + 1e-10);
+    const zeroCrossingRate = crossings / frame.length;
+
+    const isSpeech =
+      energyDb > this.energyThresholdDb &&
+      energyDb > this.noiseFloorDb + this.noiseMarginDb &&
+      zeroCrossingRate <= this.maxZeroCrossingRate;
+
+    // Noise floor falls quickly and rises slowly, and only outside speech
+    if (energyDb < this.noiseFloorDb) {
+      this.noiseFloorDb = 0.8 * this.noiseFloorDb + 0.2 * energyDb;
+    } else if (!isSpeech) {
+      this.noiseFloorDb = 0.98 * this.noiseFloorDb + 0.02 * energyDb;
+    }
+
+    if (isSpeech) {
+      this.speechFrames++;
+      this.silenceFrames = 0;
+      if (!this.speaking && this.speechFrames >= this.onsetFrames) {
+        this.speaking = true;
+        return 'start';
+      }
+    } else {
+      this.speechFrames = 0;
+      if (this.speaking && ++this.silenceFrames >= this.hangoverFrames) {
+        this.speaking = false;
+        return 'end';
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Removes TTS echo from the mic using the played TTS as a reference, delayed
+ * by the speaker-to-mic latency. 'nlms' first subtracts an adaptive (NLMS)
+ * estimate of the echo; both modes then attenuate what is left while the
+ * reference is audible, unless the mic is well above the echo expected from
+ * it (the user talking over the agent). The expected echo level is learned.
+ */
+class EchoSuppressor {
+  constructor(sampleRate, options) {
+    const { mode, delayMs, tailMs, filterMs, suppressionDb, doubleTalkDb } =
+      options;
+    this.delayLine = new Float32Array(
+      Math.max(0, Math.round((sampleRate * delayMs) / 1000))
+    );
+    this.delayIndex = 0;
+
+    this.taps =
+      mode === 'nlms'
+        ? Math.max(1, Math.round((sampleRate * filterMs) / 1000))
+        : 0;
+    this.weights = new Float32Array(this.taps);
+    // Delayed reference: the previous `taps - 1` samples, then this quantum
+    this.history = new Float32Array(Math.max(0, this.taps - 1));
+
+    // The reference level is held, then decays 60 dB over the echo tail
+    this.levelHoldSamples = Math.round(
+      (sampleRate * ECHO_DELAY_TOLERANCE_MS) / 1000
+    );
+    this.levelHoldRemaining = 0;
+    this.tailDecay = Math.pow(
+      10,
+      -6 / Math.max(1, (sampleRate * tailMs) / 1000)
+    );
+    this.referenceLevel = 0;
+    this.echoGainDb = 0;
+    this.suppression = Math.pow(10, -suppressionDb / 20);
+    this.doubleTalkRatio = Math.pow(10, doubleTalkDb / 10);
+    this.holdSamples = Math.round((sampleRate * DOUBLE_TALK_HOLD_MS) / 1000);
+    this.holdRemaining = 0;
+    this.talking = false;
+    this.gain = 1;
+    this.output = new Float32Array(0);
+  }
+
+  /** Cleaned copy of one render quantum of mic audio (reused between calls). */
+  process(mic, reference) {
+    const length = mic.length;
+    if (this.output.length !== length) {
+      this.output = new Float32Array(length);
+    }
+    const output = this.output;
+
+    const history = this.delay(reference, length);
+    let referencePower = 0;
+    for (let i = history.length - length; i < history.length; i++) {
+      referencePower += history[i] * history[i];
+    }
+    referencePower /= length;
+
+    // Decide on the filter as it stands, so near-end speech never trains it
+    if (this.taps) {
+      this.cancel(mic, false);
+    } else {
+      output.set(mic);
+    }
+    let micPower = 0;
+    for (let i = 0; i < length; i++) {
+      micPower += output[i] * output[i];
+    }
+    micPower /= length;
+
+    if (referencePower >= this.referenceLevel) {
+      this.referenceLevel = referencePower;
+      this.levelHoldRemaining = this.levelHoldSamples;
+    } else if (this.levelHoldRemaining > 0) {
+      this.levelHoldRemaining -= length;
+    } else {
+      this.referenceLevel = Math.max(
+        referencePower,
+        this.referenceLevel * Math.pow(this.tailDecay, length)
+      );
+    }
+    const expectedEcho =
+      this.referenceLevel * Math.pow(10, this.echoGainDb / 10);
+    // Nothing to suppress once the expected echo is below the noise
+    const active = expectedEcho > SILENT_POWER;
+
+    if (active && micPower > expectedEcho * this.doubleTalkRatio) {
+      this.holdRemaining = this.holdSamples;
+    } else {
+      this.holdRemaining = Math.max(0, this.holdRemaining - length);
+    }
+    this.talking = this.holdRemaining > 0;
+
+    if (active && !this.talking) {
+      if (this.taps) {
+        this.cancel(mic, true);
+      }
+      // Learn the echo level while the reference is loud
+      if (referencePower > this.referenceLevel / 2) {
+        const ratioDb = 10 * Math.log10(micPower / this.referenceLevel + 1e-12);
+        const change = Math.max(-10, ratioDb - this.echoGainDb);
+        // Rising faster than falling tracks the echo's peaks, not its average
+        this.echoGainDb += change * (change > 0 ? 4 : 1) * ECHO_GAIN_RATE;
+      }
+    }
+    if (this.taps) {
+      history.copyWithin(0, length);
+    }
+
+    // Ramp across the quantum so gain changes don't click
+    const target = active && !this.talking ? this.suppression : 1;
+    const step = (target - this.gain) / length;
+    for (let i = 0; i < length; i++) {
+      this.gain += step;
+      output[i] *= this.gain;
+    }
+    this.gain = target;
+    return output;
+  }
+
+  // Append this quantum of reference, as it was delayMs ago, to the history
+  delay(reference, length) {
+    const keep = Math.max(0, this.taps - 1);
+    if (this.history.length !== keep + length) {
+      const history = new Float32Array(keep + length);
+      history.set(this.history.subarray(0, keep));
+      this.history = history;
+    }
+
+    const history = this.history;
+    const line = this.delayLine;
+    for (let i = 0; i < length; i++) {
+      const sample = reference ? reference[i] : 0;
+      if (line.length === 0) {
+        history[keep + i] = sample;
+        continue;
+      }
+      history[keep + i] = line[this.delayIndex];
+      line[this.delayIndex] = sample;
+      this.delayIndex = (this.delayIndex + 1) % line.length;
+    }
+    return history;
+  }
+
+  // Mic minus the filter's echo estimate into `output`; NLMS update with `adapt`
+  cancel(mic, adapt) {
+    const taps = this.taps;
+    const history = this.history;
+    const weights = this.weights;
+    const output = this.output;
+
+    // Power of the reference window ending at each sample (oldest first)
+    let power = 0;
+    for (let k = 0; k < taps - 1; k++) {
+      power += history[k] * history[k];
+    }
+
+    for (let i = 0; i < mic.length; i++) {
+      const newest = history[i + taps - 1];
+      power += newest * newest;
+
+      let estimate = 0;
+      for (let k = 0; k < taps; k++) {
+        estimate += weights[k] * history[i + k];
+      }
+      const error = mic[i] - estimate;
+      output[i] = error;
+
+      if (adapt) {
+        const step = (NLMS_STEP * error) / (power + NLMS_REGULARISATION * taps);
+        for (let k = 0; k < taps; k++) {
+          weights[k] += step * history[i + k];
+        }
+      }
+      power = Math.max(0, power - history[i] * history[i]);
+    }
+  }
+}
+
 class AudioProcessor extends AudioWorkletProcessor {
   constructor(options) {
     super();
-    const { sampleRate = 44100 } = options.processorOptions ?? {};
-    this.bufferSize = Math.floor((sampleRate * 400) / 1000);
+    const {
+      sampleRate = 44100,
+      targetSampleRate,
+      vad,
+      echoSuppression,
+      sendOnlyDuringSpeech = false,
+      capture = 'open',
+      encoding,
+      base64 = false,
+      chunkDurationMs = 400,
+      frameDurationMs,
+    } = options.processorOptions ?? {};
+    const outputRate = targetSampleRate || sampleRate;
+
+    // Input block → (resampler) → output buffer → chunks of chunkSize
+    this.bufferSize = Math.max(
+      1,
+      Math.floor((sampleRate * INPUT_BLOCK_MS) / 1000)
+    );
     this.buffer = new Float32Array(this.bufferSize);
     this.bufferIndex = 0;
+    this.resampler =
+      targetSampleRate && targetSampleRate !== sampleRate
+        ? new StreamingResampler(sampleRate, targetSampleRate)
+        : null;
+
+    this.frameSize = frameDurationMs
+      ? Math.max(1, Math.round((outputRate * frameDurationMs) / 1000))
+      : 1;
+    this.chunkSize =
+      Math.max(
+        1,
+        Math.round((outputRate * chunkDurationMs) / 1000 / this.frameSize)
+      ) * this.frameSize;
+    this.output = new Float32Array(this.chunkSize * 2);
+    this.outputIndex = 0;
+    this.sequence = 0;
+    this.encoding = encoding;
+    this.base64 = base64;
+
+    this.echoSuppressor = echoSuppression
+      ? new EchoSuppressor(sampleRate, echoSuppression)
+      : null;
+    this.vad = vad ? new VoiceActivityDetector(sampleRate, vad) : null;
+    this.speechGated = !!this.vad && sendOnlyDuringSpeech;
+    // Ring buffer of recent audio, sent ahead of speech when gated
+    this.preRoll = new Float32Array(
+      this.speechGated ? Math.floor((sampleRate * vad.preRollMs) / 1000) : 0
+    );
+    this.preRollIndex = 0;
+    this.preRollFilled = 0;
+
+    this.capture = capture;
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'capture') {
+        this.setCapture(event.data.state);
+      } else if (event.data.type === 'flush') {
+        this.flush();
+        this.port.postMessage({ type: 'flushed' });
+      }
+    };
+  }
+
+  setCapture(state) {
+    if (state === this.capture) return;
+    const wasOpen = this.capture === 'open';
+    const wasCapturing = this.capture !== 'closed';
+    this.capture = state;
+
+    // VAD only listens to the live mic
+    if (wasOpen && this.vad) {
+      if (this.vad.speaking) {
+        this.port.postMessage({
+          type: 'vad',
+          speaking: false,
+          timestamp: currentTime,
+        });
+      }
+      this.vad.reset();
+      this.preRollFilled = 0;
+    }
+
+    if (state === 'closed' && wasCapturing) {
+      this.flush();
+      this.port.postMessage({ type: 'flushed' });
+    }
   }
 
   process(inputs) {
     const input = inputs[0];
     if (!input || !input[0]) return true;
 
-    const samples = input[0];
+    if (this.capture === 'closed') return true;
+
+    // VAD hears the mic with the echo removed, so the agent can't barge in on itself
+    const reference = inputs[1] && inputs[1][0];
+    const samples =
+      this.echoSuppressor && this.capture === 'open'
+        ? this.echoSuppressor.process(input[0], reference)
+        : input[0];
 
-    // Fill the buffer with new samples
     for (let i = 0; i < samples.length; i++) {
-      this.buffer[this.bufferIndex] = samples[i];
-      this.bufferIndex++;
+      if (this.capture === 'silence') {
+        this.appendSample(0);
+        continue;
+      }
 
-      // When buffer is full (200ms of audio), send it
-      if (this.bufferIndex >= this.bufferSize) {
-        // Send the filled buffer
+      const sample = samples[i];
+      const transition = this.vad ? this.vad.push(sample) : null;
+
+      if (transition) {
         this.port.postMessage({
-          type: 'audio-data',
-          data: this.buffer.slice(),
+          type: 'vad',
+          speaking: transition === 'start',
           timestamp: currentTime,
         });
+        if (this.speechGated && transition === 'start') {
+          this.flushPreRoll();
+        }
+      }
+
+      if (!this.speechGated || this.vad.speaking) {
+        this.appendSample(sample);
+      } else {
+        this.pushPreRoll(sample);
+      }
 
-        // Reset buffer index to start filling again
-        this.bufferIndex = 0;
+      // Send the tail of the utterance instead of waiting for a full buffer
+      if (this.speechGated && transition === 'end') {
+        this.flush();
       }
     }
 
     return true;
   }
+
+  // Fill the input block with a new sample; when full, move it to the output
+  appendSample(sample) {
+    this.buffer[this.bufferIndex] = sample;
+    this.bufferIndex++;
+
+    if (this.bufferIndex >= this.bufferSize) {
+      this.processBlock(this.bufferIndex);
+    }
+  }
+
+  // Resample the first `length` input samples if requested; post every full chunk
+  processBlock(length) {
+    const block = this.buffer.subarray(0, length);
+    this.appendOutput(this.resampler ? this.resampler.process(block) : block);
+    this.bufferIndex = 0;
+
+    while (this.outputIndex >= this.chunkSize) {
+      this.postChunk(this.chunkSize);
+    }
+  }
+
+  appendOutput(samples) {
+    const needed = this.outputIndex + samples.length;
+    if (needed > this.output.length) {
+      const grown = new Float32Array(needed * 2);
+      grown.set(this.output.subarray(0, this.outputIndex));
+      this.output = grown;
+    }
+    this.output.set(samples, this.outputIndex);
+    this.outputIndex = needed;
+  }
+
+  // Send everything buffered, padded with silence to a whole frame
+  flush() {
+    if (this.bufferIndex > 0) {
+      this.processBlock(this.bufferIndex);
+    }
+    if (this.outputIndex === 0) return;
+
+    const padded =
+      Math.ceil(this.outputIndex / this.frameSize) * this.frameSize;
+    this.appendOutput(new Float32Array(padded - this.outputIndex));
+    this.postChunk(padded);
+  }
+
+  // Send the first `length` output samples, encoded if requested; buffers are transferred
+  postChunk(length) {
+    const data = this.output.slice(0, length);
+    this.output.copyWithin(0, length, this.outputIndex);
+    this.outputIndex -= length;
+
+    const message = {
+      type: 'audio-data',
+      data,
+      sequence: this.sequence++,
+      timestamp: currentTime,
+    };
+    const transfer = [data.buffer];
+    if (this.encoding) {
+      const encoded = encodeAudioChunk(data, this.encoding);
+      if (this.base64) message.payload = bytesToBase64(encoded);
+      message.encoded = encoded.buffer;
+      transfer.push(message.encoded);
+    }
+    this.port.postMessage(message, transfer);
+  }
+
+  pushPreRoll(sample) {
+    if (this.preRoll.length === 0) return;
+    this.preRoll[this.preRollIndex] = sample;
+    this.preRollIndex = (this.preRollIndex + 1) % this.preRoll.length;
+    this.preRollFilled = Math.min(this.preRollFilled + 1, this.preRoll.length);
+  }
+
+  // Move buffered pre-roll (oldest first) into the send buffer
+  flushPreRoll() {
+    const size = this.preRoll.length;
+    const start = (this.preRollIndex - this.preRollFilled + size) % size;
+    for (let i = 0; i < this.preRollFilled; i++) {
+      this.appendSample(this.preRoll[(start + i) % size]);
+    }
+    this.preRollIndex = 0;
+    this.preRollFilled = 0;
+  }
+}
+
+/**
+ * Noise gate: mutes audio whose level stays below thresholdDb. Opens over
+ * attackMs, stays open holdMs after the level drops, then closes over
+ * releaseMs. processorOptions carry all four settings.
+ */
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { thresholdDb, attackMs, holdMs, releaseMs } =
+      options.processorOptions;
+    // `sampleRate` is the AudioWorkletGlobalScope's
+    this.threshold = Math.pow(10, thresholdDb / 20);
+    this.attackStep = 1 / Math.max(1, (sampleRate * attackMs) / 1000);
+    this.releaseStep = 1 / Math.max(1, (sampleRate * releaseMs) / 1000);
+    this.holdSamples = Math.round((sampleRate * holdMs) / 1000);
+    this.holdRemaining = 0;
+    this.envelopeDecay = Math.exp(-1000 / (sampleRate * GATE_ENVELOPE_MS));
+    this.envelope = 0;
+    this.gain = 0;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || !input[0]) return true;
+
+    for (let i = 0; i < input[0].length; i++) {
+      // Peak level across channels, falling off smoothly
+      let level = 0;
+      for (let c = 0; c < input.length; c++) {
+        level = Math.max(level, Math.abs(input[c][i]));
+      }
+      this.envelope = Math.max(level, this.envelope * this.envelopeDecay);
+
+      if (this.envelope >= this.threshold) {
+        this.holdRemaining = this.holdSamples;
+      } else if (this.holdRemaining > 0) {
+        this.holdRemaining--;
+      }
+      this.gain =
+        this.holdRemaining > 0
+          ? Math.min(1, this.gain + this.attackStep)
+          : Math.max(0, this.gain - this.releaseStep);
+
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = (input[c] ?? input[0])[i] * this.gain;
+      }
+    }
+    return true;
+  }
 }
 
 registerProcessor('audio-processor', AudioProcessor);
+registerProcessor('web-voice-noise-gate', NoiseGateProcessor);
@@ -1,2 +1,2 @@
 /** Generated by scripts/embed-worklet.mjs - do not edit */
-export const audioProcessorSource = "/**\n * Audio Worklet: captures mic input and posts 400ms chunks to the main thread.\n * Must be served from a path reachable by the app (e.g. public/worklet/audio-processor.js).\n * Main thread sends base64 µ-law over WebSocket (see useWebVoice.ts).\n */\nclass AudioProcessor extends AudioWorkletProcessor {\n  constructor(options) {\n    super();\n    const { sampleRate = 44100 } = options.processorOptions ?? {};\n    this.bufferSize = Math.floor((sampleRate * 400) / 1000);\n    this.buffer = new Float32Array(this.bufferSize);\n    this.bufferIndex = 0;\n  }\n\n  process(inputs) {\n    const input = inputs[0];\n    if (!input || !input[0]) return true;\n\n    const samples = input[0];\n\n    // Fill the buffer with new samples\n    for (let i = 0; i < samples.length; i++) {\n      this.buffer[this.bufferIndex] = samples[i];\n      this.bufferIndex++;\n\n      // When buffer is full (200ms of audio), send it\n      if (this.bufferIndex >= this.bufferSize) {\n        // Send the filled buffer\n        this.port.postMessage({\n          type: 'audio-data',\n          data: this.buffer.slice(),\n          timestamp: currentTime,\n        });\n\n        // Reset buffer index to start filling again\n        this.bufferIndex = 0;\n      }\n    }\n\n    return true;\n  }\n}\n\nregisterProcessor('audio-processor', AudioProcessor);\n";
+export const audioProcessorSource = "/**\n * Audio Worklet: captures mic input and posts fixed-size chunks (400ms by\n * default) to the main thread, each with a `sequence` number.\n * Not runnable as is: scripts/embed-worklet.mjs splices webVoiceDsp.ts in at the\n * `// @embed` line. For `workletPath`, serve the assembled dist/audio-processor.js.\n * With `encoding`, chunks are also encoded here and posted as a transferable\n * ArrayBuffer (`encoded`), plus its base64 (`payload`) with `base64`;\n * otherwise the main thread encodes (see webVoiceClient.ts).\n *\n * processorOptions:\n *   sampleRate        — AudioContext rate the mic arrives at.\n *   targetSampleRate  — optional rate to post chunks at (anti-aliased resampling).\n *   encoding          — optional 'mulaw' | 'alaw' | 'pcm16' (little-endian) to encode chunks in.\n *   base64            — with encoding, also post the base64 `media` payload (JSON transport).\n *   chunkDurationMs   — chunk length at the posted rate (default 400).\n *   frameDurationMs   — optional codec frame length; chunks are whole frames,\n *                       and flushed partial chunks are padded with silence.\n *   vad               — optional VAD settings; posts { type: 'vad', speaking } on transitions.\n *   echoSuppression   — optional echo suppression settings; the TTS being played\n *                       arrives on the second input as the reference.\n *   sendOnlyDuringSpeech — with vad, only post audio while speaking (plus pre-roll).\n *   capture           — initial capture state (see below).\n *\n * Messages from the main thread:\n *   { type: 'capture', state: 'open' | 'silence' | 'closed' } — 'silence' posts\n *   zeros (mute), 'closed' posts nothing (mute / push-to-talk released). Closing\n *   sends the partial buffer, then posts { type: 'flushed' }.\n *   { type: 'flush' } — send the partial buffer now, then post { type: 'flushed' }\n *   (capture stopping).\n *\n * Also registers 'web-voice-noise-gate', the `noiseGate` processing stage\n * (see webVoiceProcessing.ts), which runs ahead of this processor.\n */\n\n/** Input is resampled in blocks this long, so chunks never wait on a whole input chunk. */\nconst INPUT_BLOCK_MS = 10;\n/** Mean power treated as silence (-80 dBFS). */\nconst SILENT_POWER = 1e-8;\n/** The reference level is held this long before decaying, covering delay misestimates. */\nconst ECHO_DELAY_TOLERANCE_MS = 50;\n/** Audio stays unsuppressed this long after the user is last heard over the echo. */\nconst DOUBLE_TALK_HOLD_MS = 150;\n/** Echo gain learning rate (per render quantum, in dB). */\nconst ECHO_GAIN_RATE = 0.01;\n/** Noise gate level follower: decay time constant (ms). */\nconst GATE_ENVELOPE_MS = 10;\n/** NLMS step size and regularisation (power per tap). */\nconst NLMS_STEP = 0.5;\nconst NLMS_REGULARISATION = 1e-6;\n\n// ---- webVoiceDsp.ts (spliced in by scripts/embed-worklet.mjs) ----\n/**\n * webVoiceDsp — G.711 / PCM16 codecs, base64, WAV decoding and resampling\n *\n * The one copy of this code. The main thread imports it; the capture worklet\n * and the decode worker can't import modules, so scripts/embed-worklet.mjs\n * compiles it into their sources. Keep it free of imports and of globals\n * those scopes lack (no DOM, no Blob, no btoa/atob in the worklet).\n */\n/** Float32 [-1, 1] → Int16 sample, truncated toward zero like an Int16Array store. */\nconst floatToInt16 = (sample) => {\n    const s = Math.max(-1, Math.min(1, sample));\n    return Math.trunc(s < 0 ? s * 0x8000 : s * 0x7fff);\n};\n/** Float32 [-1, 1] → Int16 PCM for encoding. */\nfunction floatTo16BitPCM(float32Array) {\n    const int16Array = new Int16Array(float32Array.length);\n    for (let i = 0; i < float32Array.length; i++) {\n        int16Array[i] = floatToInt16(float32Array[i]);\n    }\n    return int16Array;\n}\nconst convertPCMDataToFloat32 = (pcm16Data) => {\n    const float32Data = new Float32Array(pcm16Data.length);\n    for (let i = 0; i < pcm16Data.length; i++) {\n        float32Data[i] = pcm16Data[i] / (pcm16Data[i] < 0 ? 0x8000 : 0x7fff);\n    }\n    return float32Data;\n};\n/** One Int16 sample → µ-law byte. */\nconst encodeMuLawSample = (pcm) => {\n    const BIAS = 0x84;\n    const CLIP = 32635;\n    let sample = pcm;\n    const sign = (sample >> 8) & 0x80;\n    if (sign)\n        sample = -sample;\n    // Clip sample to max value\n    if (sample > CLIP)\n        sample = CLIP;\n    sample += BIAS;\n    let exponent = 7;\n    for (; exponent > 0; exponent--) {\n        if (sample & 0x4000)\n            break;\n        sample <<= 1;\n    }\n    const mantissa = (sample >> 9) & 0x0f;\n    return ~(sign | (exponent << 4) | mantissa) & 0xff;\n};\n/** G.711 A-law segment end points (13-bit magnitude). */\nconst ALAW_SEGMENT_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];\n/** One Int16 sample → A-law byte. */\nconst encodeALawSample = (pcm) => {\n    // A-law works on 13-bit samples\n    let sample = pcm >> 3;\n    let mask;\n    if (sample >= 0) {\n        mask = 0xd5;\n    }\n    else {\n        mask = 0x55;\n        sample = -sample - 1;\n    }\n    // Find the segment\n    let segment = 0;\n    while (segment < 8 && sample > ALAW_SEGMENT_END[segment]) {\n        segment++;\n    }\n    // Out of range, clip to max\n    if (segment >= 8)\n        return 0x7f ^ mask;\n    const aLawByte = (segment << 4) | ((sample >> (segment < 2 ? 1 : segment)) & 0x0f);\n    return aLawByte ^ mask;\n};\nfunction linearToMuLaw(pcm) {\n    const muLawCompressed = new Uint8Array(pcm.length);\n    for (let i = 0; i < pcm.length; i++) {\n        muLawCompressed[i] = encodeMuLawSample(pcm[i]);\n    }\n    return muLawCompressed;\n}\nfunction linearToALaw(pcm) {\n    const aLawCompressed = new Uint8Array(pcm.length);\n    for (let i = 0; i < pcm.length; i++) {\n        aLawCompressed[i] = encodeALawSample(pcm[i]);\n    }\n    return aLawCompressed;\n}\nfunction muLawToLinear(muLaw) {\n    const BIAS = 0x84;\n    const pcm = new Int16Array(muLaw.length);\n    for (let i = 0; i < muLaw.length; i++) {\n        // µ-law bytes are stored inverted\n        const ulawByte = ~muLaw[i] & 0xff;\n        const sign = ulawByte & 0x80;\n        const exponent = (ulawByte >> 4) & 0x07;\n        const mantissa = ulawByte & 0x0f;\n        const sample = (((mantissa << 3) + BIAS) << exponent) - BIAS;\n        pcm[i] = sign ? -sample : sample;\n    }\n    return pcm;\n}\nfunction aLawToLinear(aLaw) {\n    const pcm = new Int16Array(aLaw.length);\n    for (let i = 0; i < aLaw.length; i++) {\n        const aLawByte = aLaw[i] ^ 0x55;\n        const segment = (aLawByte & 0x70) >> 4;\n        let sample = (aLawByte & 0x0f) << 4;\n        if (segment === 0) {\n            sample += 8;\n        }\n        else {\n            sample = (sample + 0x108) << (segment - 1);\n        }\n        pcm[i] = aLawByte & 0x80 ? sample : -sample;\n    }\n    return pcm;\n}\n/** Int16 PCM → little-endian bytes. */\nfunction pcm16ToBytes(pcm) {\n    const bytes = new Uint8Array(pcm.length * 2);\n    const view = new DataView(bytes.buffer);\n    for (let i = 0; i < pcm.length; i++) {\n        view.setInt16(i * 2, pcm[i], true);\n    }\n    return bytes;\n}\n/** Float32 chunk → bytes in a built-in codec (a Uint8Array over its own buffer). */\nconst encodeAudioChunk = (samples, encoding) => {\n    if (encoding === 'pcm16') {\n        const bytes = new Uint8Array(samples.length * 2);\n        const view = new DataView(bytes.buffer);\n        for (let i = 0; i < samples.length; i++) {\n            view.setInt16(i * 2, floatToInt16(samples[i]), true);\n        }\n        return bytes;\n    }\n    const encode = encoding === 'alaw' ? encodeALawSample : encodeMuLawSample;\n    const bytes = new Uint8Array(samples.length);\n    for (let i = 0; i < samples.length; i++) {\n        bytes[i] = encode(floatToInt16(samples[i]));\n    }\n    return bytes;\n};\nconst BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';\nconst BASE64_VALUES = new Int8Array(128).fill(-1);\nfor (let i = 0; i < BASE64_ALPHABET.length; i++) {\n    BASE64_VALUES[BASE64_ALPHABET.charCodeAt(i)] = i;\n}\n/** Bytes → base64, for JSON `media` payloads. */\nconst bytesToBase64 = (bytes) => {\n    const chars = [];\n    let i = 0;\n    for (; i + 2 < bytes.length; i += 3) {\n        const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];\n        chars.push(BASE64_ALPHABET[n >> 18] +\n            BASE64_ALPHABET[(n >> 12) & 63] +\n            BASE64_ALPHABET[(n >> 6) & 63] +\n            BASE64_ALPHABET[n & 63]);\n    }\n    const rest = bytes.length - i;\n    if (rest > 0) {\n        const n = (bytes[i] << 16) | (rest === 2 ? bytes[i + 1] << 8 : 0);\n        chars.push(BASE64_ALPHABET[n >> 18] +\n            BASE64_ALPHABET[(n >> 12) & 63] +\n            (rest === 2 ? BASE64_ALPHABET[(n >> 6) & 63] : '=') +\n            '=');\n    }\n    return chars.join('');\n};\n/** base64 (padding optional) → bytes. Throws on characters outside the alphabet. */\nconst base64ToBytes = (base64) => {\n    let length = base64.length;\n    while (length > 0 && base64[length - 1] === '=')\n        length--;\n    const bytes = new Uint8Array(Math.floor((length * 3) / 4));\n    let bits = 0;\n    let value = 0;\n    let index = 0;\n    for (let i = 0; i < length; i++) {\n        const code = base64.charCodeAt(i);\n        const digit = code < 128 ? BASE64_VALUES[code] : -1;\n        if (digit < 0)\n            throw new Error('Invalid base64 payload');\n        value = (value << 6) | digit;\n        bits += 6;\n        if (bits >= 8) {\n            bits -= 8;\n            bytes[index++] = (value >> bits) & 0xff;\n        }\n    }\n    return bytes;\n};\n/** WAVE `fmt ` AudioFormat codes. */\nconst WAV_FORMAT = {\n    pcm: 1,\n    float: 3,\n    alaw: 6,\n    mulaw: 7,\n};\nconst readChunkId = (view, offset) => String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));\n/**\n * Parse a RIFF/WAVE header, walking chunks to find `fmt ` and `data`.\n * Returns null when `bytes` does not start with a WAV header.\n */\nconst parseWavHeader = (bytes) => {\n    if (bytes.length < 12)\n        return null;\n    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);\n    if (readChunkId(view, 0) !== 'RIFF' || readChunkId(view, 8) !== 'WAVE') {\n        return null;\n    }\n    let format = null;\n    let offset = 12;\n    while (offset + 8 <= bytes.length) {\n        const id = readChunkId(view, offset);\n        const size = view.getUint32(offset + 4, true);\n        const body = offset + 8;\n        if (id === 'fmt ') {\n            format = {\n                audioFormat: view.getUint16(body, true),\n                channels: view.getUint16(body + 2, true),\n                sampleRate: view.getUint32(body + 4, true),\n                bitsPerSample: view.getUint16(body + 14, true),\n            };\n        }\n        else if (id === 'data') {\n            if (!format)\n                break;\n            // Streamed WAVs often carry a placeholder size; clamp to what we have\n            const end = Math.min(bytes.length, body + size);\n            return { format, data: bytes.subarray(body, end) };\n        }\n        // Chunks are word-aligned\n        offset = body + size + (size % 2);\n    }\n    throw new Error('Malformed WAV payload: missing fmt or data chunk');\n};\n/** Mix interleaved channels down to mono. */\nconst downmix = (interleaved, channels) => {\n    if (channels <= 1)\n        return interleaved;\n    const mono = new Float32Array(Math.floor(interleaved.length / channels));\n    for (let i = 0; i < mono.length; i++) {\n        let sum = 0;\n        for (let c = 0; c < channels; c++) {\n            sum += interleaved[i * channels + c];\n        }\n        mono[i] = sum / channels;\n    }\n    return mono;\n};\n/** 16-bit PCM bytes → Int16 in the given byte order (odd trailing byte ignored). */\nconst bytesToPCM16 = (bytes, littleEndian) => {\n    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);\n    const pcm = new Int16Array(Math.floor(bytes.length / 2));\n    for (let i = 0; i < pcm.length; i++) {\n        pcm[i] = view.getInt16(i * 2, littleEndian);\n    }\n    return pcm;\n};\n/** WAV sample data in `format` → mono Float32. */\nconst decodeWavData = (data, format) => {\n    let interleaved;\n    if (format.audioFormat === WAV_FORMAT.pcm && format.bitsPerSample === 16) {\n        interleaved = convertPCMDataToFloat32(bytesToPCM16(data, true));\n    }\n    else if (format.audioFormat === WAV_FORMAT.mulaw) {\n        interleaved = convertPCMDataToFloat32(muLawToLinear(data));\n    }\n    else if (format.audioFormat === WAV_FORMAT.alaw) {\n        interleaved = convertPCMDataToFloat32(aLawToLinear(data));\n    }\n    else if (format.audioFormat === WAV_FORMAT.float &&\n        format.bitsPerSample === 32) {\n        interleaved = new Float32Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.length - (data.length % 4)));\n    }\n    else {\n        throw new Error(`Unsupported WAV format: AudioFormat ${format.audioFormat}, ${format.bitsPerSample}-bit`);\n    }\n    return downmix(interleaved, format.channels);\n};\n// A streamed WAV has its header in the first chunk only; later chunks are\n// bare data in that format (`streamFormat`, from the previous chunk)\nconst decodeWav = (bytes, streamFormat) => {\n    const wav = parseWavHeader(bytes);\n    const format = wav?.format ?? streamFormat;\n    if (!format)\n        throw new Error('Headerless WAV chunk before any WAV header');\n    return {\n        samples: decodeWavData(wav?.data ?? bytes, format),\n        sampleRate: format.sampleRate,\n        wavFormat: format,\n    };\n};\n/**\n * Decode an inbound TTS payload (a WebVoiceInputEncoding) to mono Float32.\n * `sampleRate` and `wavFormat` are only set for WAV; pass `wavFormat` back\n * with the stream's next chunk, which may have no header.\n * Throws on unknown encodings rather than playing noise.\n */\nconst decodeAudioPayload = (bytes, encoding, wavFormat = null) => {\n    switch (encoding) {\n        case 'pcm16':\n        case 'pcm16le':\n            return { samples: convertPCMDataToFloat32(bytesToPCM16(bytes, true)) };\n        case 'pcm16be':\n            return { samples: convertPCMDataToFloat32(bytesToPCM16(bytes, false)) };\n        case 'mulaw':\n            return { samples: convertPCMDataToFloat32(muLawToLinear(bytes)) };\n        case 'alaw':\n            return { samples: convertPCMDataToFloat32(aLawToLinear(bytes)) };\n        case 'wav':\n            return decodeWav(bytes, wavFormat);\n        default:\n            throw new Error(`Unsupported input encoding: ${encoding}`);\n    }\n};\n/**\n * Streaming windowed-sinc resampler (polyphase table, Blackman window).\n * When downsampling, the cutoff sits just below the output Nyquist so the\n * result is anti-aliased. Keeps filter history between calls, so feed it\n * consecutive chunks of one stream; output lags input by `zeroCrossings`\n * input samples (scaled by the ratio when downsampling).\n */\nclass StreamingResampler {\n    constructor(inputRate, outputRate, zeroCrossings = 8, phases = 128) {\n        this.inputRate = inputRate;\n        this.outputRate = outputRate;\n        // Input samples per output sample\n        this.step = inputRate / outputRate;\n        // Cutoff as a fraction of the input Nyquist, with a little transition band\n        const cutoff = Math.min(1, outputRate / inputRate) * 0.95;\n        this.halfWidth = Math.ceil(zeroCrossings / cutoff);\n        this.taps = this.halfWidth * 2;\n        this.phases = phases;\n        this.kernel = new Float32Array((phases + 1) * this.taps);\n        for (let p = 0; p <= phases; p++) {\n            const base = p * this.taps;\n            let sum = 0;\n            for (let j = 0; j < this.taps; j++) {\n                // Distance from the output position to input tap j\n                const distance = p / phases - (j - this.halfWidth + 1);\n                const x = distance * cutoff;\n                const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);\n                const w = (Math.PI * distance) / this.halfWidth;\n                const window = 0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w);\n                this.kernel[base + j] = sinc * Math.max(0, window);\n                sum += this.kernel[base + j];\n            }\n            // Normalise each phase to unity DC gain\n            for (let j = 0; j < this.taps; j++) {\n                this.kernel[base + j] /= sum;\n            }\n        }\n        this.history = new Float32Array(this.taps);\n        this.time = this.taps;\n    }\n    /** Resample the next chunk of the stream. */\n    process(input) {\n        const buffer = new Float32Array(this.taps + input.length);\n        buffer.set(this.history);\n        buffer.set(input, this.taps);\n        const output = new Float32Array(Math.ceil(buffer.length / this.step) + 1);\n        let count = 0;\n        let time = this.time;\n        while (Math.floor(time) + this.halfWidth < buffer.length) {\n            const index = Math.floor(time);\n            const phase = Math.round((time - index) * this.phases);\n            const base = phase * this.taps;\n            const start = index - this.halfWidth + 1;\n            let acc = 0;\n            for (let j = 0; j < this.taps; j++) {\n                acc += buffer[start + j] * this.kernel[base + j];\n            }\n            output[count++] = acc;\n            time += this.step;\n        }\n        // Keep the last `taps` samples as history for the next chunk\n        const consumed = buffer.length - this.taps;\n        this.history = buffer.slice(consumed);\n        this.time = time - consumed;\n        return output.slice(0, count);\n    }\n    /** Input samples the filter needs beyond an output position. */\n    get lookahead() {\n        return this.halfWidth;\n    }\n    /** Forget history (e.g. after a barge or a new utterance). */\n    reset() {\n        this.history.fill(0);\n        this.time = this.taps;\n    }\n}\n// ---- end webVoiceDsp.ts ----\n\n/**\n * Energy + zero-crossing voice activity detector over fixed frames, with an\n * adaptive noise floor, onset delay and hangover.\n */\nclass VoiceActivityDetector {\n  constructor(sampleRate, options) {\n    const {\n      energyThresholdDb,\n      noiseMarginDb,\n      maxZeroCrossingRate,\n      minSpeechMs,\n      hangoverMs,\n      frameMs,\n    } = options;\n    this.frame = new Float32Array(Math.floor((sampleRate * frameMs) / 1000));\n    this.frameIndex = 0;\n    this.energyThresholdDb = energyThresholdDb;\n    this.noiseMarginDb = noiseMarginDb;\n    this.maxZeroCrossingRate = maxZeroCrossingRate;\n    this.onsetFrames = Math.max(1, Math.ceil(minSpeechMs / frameMs));\n    this.hangoverFrames = Math.max(1, Math.ceil(hangoverMs / frameMs));\n    this.noiseFloorDb = energyThresholdDb - noiseMarginDb;\n    this.speechFrames = 0;\n    this.silenceFrames = 0;\n    this.speaking = false;\n  }\n\n  /** Feed one sample; returns 'start' or 'end' when the state flips, else null. */\n  push(sample) {\n    this.frame[this.frameIndex++] = sample;\n    if (this.frameIndex < this.frame.length) return null;\n    this.frameIndex = 0;\n    return this.analyseFrame();\n  }\n\n  reset() {\n    this.frameIndex = 0;\n    this.speechFrames = 0;\n    this.silenceFrames = 0;\n    this.speaking = false;\n  }\n\n  analyseFrame() {\n    const frame = this.frame;\n    let energy = 0;\n    let crossings = 0;\n    for (let i = 0; i < frame.length; i++) {\n      energy += frame[i] * frame[i];\n      if (i > 0 && frame[i] >= 0 !== frame[i - 1] >= 0) crossings++;\n    }\n    const energyDb = 10 * Math.log10(energy / frame.length + 1e-10);\n    const zeroCrossingRate = crossings / frame.length;\n\n    const isSpeech =\n      energyDb > this.energyThresholdDb &&\n      energyDb > this.noiseFloorDb + this.noiseMarginDb &&\n      zeroCrossingRate <= this.maxZeroCrossingRate;\n\n    // Noise floor falls quickly and rises slowly, and only outside speech\n    if (energyDb < this.noiseFloorDb) {\n      this.noiseFloorDb = 0.8 * this.noiseFloorDb + 0.2 * energyDb;\n    } else if (!isSpeech) {\n      this.noiseFloorDb = 0.98 * this.noiseFloorDb + 0.02 * energyDb;\n    }\n\n    if (isSpeech) {\n      this.speechFrames++;\n      this.silenceFrames = 0;\n      if (!this.speaking && this.speechFrames >= this.onsetFrames) {\n        this.speaking = true;\n        return 'start';\n      }\n    } else {\n      this.speechFrames = 0;\n      if (this.speaking && ++this.silenceFrames >= this.hangoverFrames) {\n        this.speaking = false;\n        return 'end';\n      }\n    }\n    return null;\n  }\n}\n\n/**\n * Removes TTS echo from the mic using the played TTS as a reference, delayed\n * by the speaker-to-mic latency. 'nlms' first subtracts an adaptive (NLMS)\n * estimate of the echo; both modes then attenuate what is left while the\n * reference is audible, unless the mic is well above the echo expected from\n * it (the user talking over the agent). The expected echo level is learned.\n */\nclass EchoSuppressor {\n  constructor(sampleRate, options) {\n    const { mode, delayMs, tailMs, filterMs, suppressionDb, doubleTalkDb } =\n      options;\n    this.delayLine = new Float32Array(\n      Math.max(0, Math.round((sampleRate * delayMs) / 1000))\n    );\n    this.delayIndex = 0;\n\n    this.taps =\n      mode === 'nlms'\n        ? Math.max(1, Math.round((sampleRate * filterMs) / 1000))\n        : 0;\n    this.weights = new Float32Array(this.taps);\n    // Delayed reference: the previous `taps - 1` samples, then this quantum\n    this.history = new Float32Array(Math.max(0, this.taps - 1));\n\n    // The reference level is held, then decays 60 dB over the echo tail\n    this.levelHoldSamples = Math.round(\n      (sampleRate * ECHO_DELAY_TOLERANCE_MS) / 1000\n    );\n    this.levelHoldRemaining = 0;\n    this.tailDecay = Math.pow(\n      10,\n      -6 / Math.max(1, (sampleRate * tailMs) / 1000)\n    );\n    this.referenceLevel = 0;\n    this.echoGainDb = 0;\n    this.suppression = Math.pow(10, -suppressionDb / 20);\n    this.doubleTalkRatio = Math.pow(10, doubleTalkDb / 10);\n    this.holdSamples = Math.round((sampleRate * DOUBLE_TALK_HOLD_MS) / 1000);\n    this.holdRemaining = 0;\n    this.talking = false;\n    this.gain = 1;\n    this.output = new Float32Array(0);\n  }\n\n  /** Cleaned copy of one render quantum of mic audio (reused between calls). */\n  process(mic, reference) {\n    const length = mic.length;\n    if (this.output.length !== length) {\n      this.output = new Float32Array(length);\n    }\n    const output = this.output;\n\n    const history = this.delay(reference, length);\n    let referencePower = 0;\n    for (let i = history.length - length; i < history.length; i++) {\n      referencePower += history[i] * history[i];\n    }\n    referencePower /= length;\n\n    // Decide on the filter as it stands, so near-end speech never trains it\n    if (this.taps) {\n      this.cancel(mic, false);\n    } else {\n      output.set(mic);\n    }\n    let micPower = 0;\n    for (let i = 0; i < length; i++) {\n      micPower += output[i] * output[i];\n    }\n    micPower /= length;\n\n    if (referencePower >= this.referenceLevel) {\n      this.referenceLevel = referencePower;\n      this.levelHoldRemaining = this.levelHoldSamples;\n    } else if (this.levelHoldRemaining > 0) {\n      this.levelHoldRemaining -= length;\n    } else {\n      this.referenceLevel = Math.max(\n        referencePower,\n        this.referenceLevel * Math.pow(this.tailDecay, length)\n      );\n    }\n    const expectedEcho =\n      this.referenceLevel * Math.pow(10, this.echoGainDb / 10);\n    // Nothing to suppress once the expected echo is below the noise\n    const active = expectedEcho > SILENT_POWER;\n\n    if (active && micPower > expectedEcho * this.doubleTalkRatio) {\n      this.holdRemaining = this.holdSamples;\n    } else {\n      this.holdRemaining = Math.max(0, this.holdRemaining - length);\n    }\n    this.talking = this.holdRemaining > 0;\n\n    if (active && !this.talking) {\n      if (this.taps) {\n        this.cancel(mic, true);\n      }\n      // Learn the echo level while the reference is loud\n      if (referencePower > this.referenceLevel / 2) {\n        const ratioDb = 10 * Math.log10(micPower / this.referenceLevel + 1e-12);\n        const change = Math.max(-10, ratioDb - this.echoGainDb);\n        // Rising faster than falling tracks the echo's peaks, not its average\n        this.echoGainDb += change * (change > 0 ? 4 : 1) * ECHO_GAIN_RATE;\n      }\n    }\n    if (this.taps) {\n      history.copyWithin(0, length);\n    }\n\n    // Ramp across the quantum so gain changes don't click\n    const target = active && !this.talking ? this.suppression : 1;\n    const step = (target - this.gain) / length;\n    for (let i = 0; i < length; i++) {\n      this.gain += step;\n      output[i] *= this.gain;\n    }\n    this.gain = target;\n    return output;\n  }\n\n  // Append this quantum of reference, as it was delayMs ago, to the history\n  delay(reference, length) {\n    const keep = Math.max(0, this.taps - 1);\n    if (this.history.length !== keep + length) {\n      const history = new Float32Array(keep + length);\n      history.set(this.history.subarray(0, keep));\n      this.history = history;\n    }\n\n    const history = this.history;\n    const line = this.delayLine;\n    for (let i = 0; i < length; i++) {\n      const sample = reference ? reference[i] : 0;\n      if (line.length === 0) {\n        history[keep + i] = sample;\n        continue;\n      }\n      history[keep + i] = line[this.delayIndex];\n      line[this.delayIndex] = sample;\n      this.delayIndex = (this.delayIndex + 1) % line.length;\n    }\n    return history;\n  }\n\n  // Mic minus the filter's echo estimate into `output`; NLMS update with `adapt`\n  cancel(mic, adapt) {\n    const taps = this.taps;\n    const history = this.history;\n    const weights = this.weights;\n    const output = this.output;\n\n    // Power of the reference window ending at each sample (oldest first)\n    let power = 0;\n    for (let k = 0; k < taps - 1; k++) {\n      power += history[k] * history[k];\n    }\n\n    for (let i = 0; i < mic.length; i++) {\n      const newest = history[i + taps - 1];\n      power += newest * newest;\n\n      let estimate = 0;\n      for (let k = 0; k < taps; k++) {\n        estimate += weights[k] * history[i + k];\n      }\n      const error = mic[i] - estimate;\n      output[i] = error;\n\n      if (adapt) {\n        const step = (NLMS_STEP * error) / (power + NLMS_REGULARISATION * taps);\n        for (let k = 0; k < taps; k++) {\n          weights[k] += step * history[i + k];\n        }\n      }\n      power = Math.max(0, power - history[i] * history[i]);\n    }\n  }\n}\n\nclass AudioProcessor extends AudioWorkletProcessor {\n  constructor(options) {\n    super();\n    const {\n      sampleRate = 44100,\n      targetSampleRate,\n      vad,\n      echoSuppression,\n      sendOnlyDuringSpeech = false,\n      capture = 'open',\n      encoding,\n      base64 = false,\n      chunkDurationMs = 400,\n      frameDurationMs,\n    } = options.processorOptions ?? {};\n    const outputRate = targetSampleRate || sampleRate;\n\n    // Input block → (resampler) → output buffer → chunks of chunkSize\n    this.bufferSize = Math.max(\n      1,\n      Math.floor((sampleRate * INPUT_BLOCK_MS) / 1000)\n    );\n    this.buffer = new Float32Array(this.bufferSize);\n    this.bufferIndex = 0;\n    this.resampler =\n      targetSampleRate && targetSampleRate !== sampleRate\n        ? new StreamingResampler(sampleRate, targetSampleRate)\n        : null;\n\n    this.frameSize = frameDurationMs\n      ? Math.max(1, Math.round((outputRate * frameDurationMs) / 1000))\n      : 1;\n    this.chunkSize =\n      Math.max(\n        1,\n        Math.round((outputRate * chunkDurationMs) / 1000 / this.frameSize)\n      ) * this.frameSize;\n    this.output = new Float32Array(this.chunkSize * 2);\n    this.outputIndex = 0;\n    this.sequence = 0;\n    this.encoding = encoding;\n    this.base64 = base64;\n\n    this.echoSuppressor = echoSuppression\n      ? new EchoSuppressor(sampleRate, echoSuppression)\n      : null;\n    this.vad = vad ? new VoiceActivityDetector(sampleRate, vad) : null;\n    this.speechGated = !!this.vad && sendOnlyDuringSpeech;\n    // Ring buffer of recent audio, sent ahead of speech when gated\n    this.preRoll = new Float32Array(\n      this.speechGated ? Math.floor((sampleRate * vad.preRollMs) / 1000) : 0\n    );\n    this.preRollIndex = 0;\n    this.preRollFilled = 0;\n\n    this.capture = capture;\n    this.port.onmessage = (event) => {\n      if (event.data.type === 'capture') {\n        this.setCapture(event.data.state);\n      } else if (event.data.type === 'flush') {\n        this.flush();\n        this.port.postMessage({ type: 'flushed' });\n      }\n    };\n  }\n\n  setCapture(state) {\n    if (state === this.capture) return;\n    const wasOpen = this.capture === 'open';\n    const wasCapturing = this.capture !== 'closed';\n    this.capture = state;\n\n    // VAD only listens to the live mic\n    if (wasOpen && this.vad) {\n      if (this.vad.speaking) {\n        this.port.postMessage({\n          type: 'vad',\n          speaking: false,\n          timestamp: currentTime,\n        });\n      }\n      this.vad.reset();\n      this.preRollFilled = 0;\n    }\n\n    if (state === 'closed' && wasCapturing) {\n      this.flush();\n      this.port.postMessage({ type: 'flushed' });\n    }\n  }\n\n  process(inputs) {\n    const input = inputs[0];\n    if (!input || !input[0]) return true;\n\n    if (this.capture === 'closed') return true;\n\n    // VAD hears the mic with the echo removed, so the agent can't barge in on itself\n    const reference = inputs[1] && inputs[1][0];\n    const samples =\n      this.echoSuppressor && this.capture === 'open'\n        ? this.echoSuppressor.process(input[0], reference)\n        : input[0];\n\n    for (let i = 0; i < samples.length; i++) {\n      if (this.capture === 'silence') {\n        this.appendSample(0);\n        continue;\n      }\n\n      const sample = samples[i];\n      const transition = this.vad ? this.vad.push(sample) : null;\n\n      if (transition) {\n        this.port.postMessage({\n          type: 'vad',\n          speaking: transition === 'start',\n          timestamp: currentTime,\n        });\n        if (this.speechGated && transition === 'start') {\n          this.flushPreRoll();\n        }\n      }\n\n      if (!this.speechGated || this.vad.speaking) {\n        this.appendSample(sample);\n      } else {\n        this.pushPreRoll(sample);\n      }\n\n      // Send the tail of the utterance instead of waiting for a full buffer\n      if (this.speechGated && transition === 'end') {\n        this.flush();\n      }\n    }\n\n    return true;\n  }\n\n  // Fill the input block with a new sample; when full, move it to the output\n  appendSample(sample) {\n    this.buffer[this.bufferIndex] = sample;\n    this.bufferIndex++;\n\n    if (this.bufferIndex >= this.bufferSize) {\n      this.processBlock(this.bufferIndex);\n    }\n  }\n\n  // Resample the first `length` input samples if requested; post every full chunk\n  processBlock(length) {\n    const block = this.buffer.subarray(0, length);\n    this.appendOutput(this.resampler ? this.resampler.process(block) : block);\n    this.bufferIndex = 0;\n\n    while (this.outputIndex >= this.chunkSize) {\n      this.postChunk(this.chunkSize);\n    }\n  }\n\n  appendOutput(samples) {\n    const needed = this.outputIndex + samples.length;\n    if (needed > this.output.length) {\n      const grown = new Float32Array(needed * 2);\n      grown.set(this.output.subarray(0, this.outputIndex));\n      this.output = grown;\n    }\n    this.output.set(samples, this.outputIndex);\n    this.outputIndex = needed;\n  }\n\n  // Send everything buffered, padded with silence to a whole frame\n  flush() {\n    if (this.bufferIndex > 0) {\n      this.processBlock(this.bufferIndex);\n    }\n    if (this.outputIndex === 0) return;\n\n    const padded =\n      Math.ceil(this.outputIndex / this.frameSize) * this.frameSize;\n    this.appendOutput(new Float32Array(padded - this.outputIndex));\n    this.postChunk(padded);\n  }\n\n  // Send the first `length` output samples, encoded if requested; buffers are transferred\n  postChunk(length) {\n    const data = this.output.slice(0, length);\n    this.output.copyWithin(0, length, this.outputIndex);\n    this.outputIndex -= length;\n\n    const message = {\n      type: 'audio-data',\n      data,\n      sequence: this.sequence++,\n      timestamp: currentTime,\n    };\n    const transfer = [data.buffer];\n    if (this.encoding) {\n      const encoded = encodeAudioChunk(data, this.encoding);\n      if (this.base64) message.payload = bytesToBase64(encoded);\n      message.encoded = encoded.buffer;\n      transfer.push(message.encoded);\n    }\n    this.port.postMessage(message, transfer);\n  }\n\n  pushPreRoll(sample) {\n    if (this.preRoll.length === 0) return;\n    this.preRoll[this.preRollIndex] = sample;\n    this.preRollIndex = (this.preRollIndex + 1) % this.preRoll.length;\n    this.preRollFilled = Math.min(this.preRollFilled + 1, this.preRoll.length);\n  }\n\n  // Move buffered pre-roll (oldest first) into the send buffer\n  flushPreRoll() {\n    const size = this.preRoll.length;\n    const start = (this.preRollIndex - this.preRollFilled + size) % size;\n    for (let i = 0; i < this.preRollFilled; i++) {\n      this.appendSample(this.preRoll[(start + i) % size]);\n    }\n    this.preRollIndex = 0;\n    this.preRollFilled = 0;\n  }\n}\n\n/**\n * Noise gate: mutes audio whose level stays below thresholdDb. Opens over\n * attackMs, stays open holdMs after the level drops, then closes over\n * releaseMs. processorOptions carry all four settings.\n */\nclass NoiseGateProcessor extends AudioWorkletProcessor {\n  constructor(options) {\n    super();\n    const { thresholdDb, attackMs, holdMs, releaseMs } =\n      options.processorOptions;\n    // `sampleRate` is the AudioWorkletGlobalScope's\n    this.threshold = Math.pow(10, thresholdDb / 20);\n    this.attackStep = 1 / Math.max(1, (sampleRate * attackMs) / 1000);\n    this.releaseStep = 1 / Math.max(1, (sampleRate * releaseMs) / 1000);\n    this.holdSamples = Math.round((sampleRate * holdMs) / 1000);\n    this.holdRemaining = 0;\n    this.envelopeDecay = Math.exp(-1000 / (sampleRate * GATE_ENVELOPE_MS));\n    this.envelope = 0;\n    this.gain = 0;\n  }\n\n  process(inputs, outputs) {\n    const input = inputs[0];\n    const output = outputs[0];\n    if (!input || !input[0]) return true;\n\n    for (let i = 0; i < input[0].length; i++) {\n      // Peak level across channels, falling off smoothly\n      let level = 0;\n      for (let c = 0; c < input.length; c++) {\n        level = Math.max(level, Math.abs(input[c][i]));\n      }\n      this.envelope = Math.max(level, this.envelope * this.envelopeDecay);\n\n      if (this.envelope >= this.threshold) {\n        this.holdRemaining = this.holdSamples;\n      } else if (this.holdRemaining > 0) {\n        this.holdRemaining--;\n      }\n      this.gain =\n        this.holdRemaining > 0\n          ? Math.min(1, this.gain + this.attackStep)\n          : Math.max(0, this.gain - this.releaseStep);\n\n      for (let c = 0; c < output.length; c++) {\n        output[c][i] = (input[c] ?? input[0])[i] * this.gain;\n      }\n    }\n    return true;\n  }\n}\n\nregisterProcessor('audio-processor', AudioProcessor);\nregisterProcessor('web-voice-noise-gate', NoiseGateProcessor);\n";
@@ -0,0 +1,56 @@
+/**
+ * Web Worker: decodes and resamples inbound TTS off the main thread.
+ * Embedded like the worklet (see scripts/embed-worklet.mjs) and loaded from a Blob URL.
+ *
+ * Messages from the main thread:
+ *   { type: 'decode', generation, bytes | payload, encoding, sampleRate, outputRate }
+ *     — `bytes` (ArrayBuffer, transferred) or a JSON message's base64 `payload`,
+ *     in `encoding`; `sampleRate` is the announced rate (WAV payloads carry
+ *     their own).
+ *   { type: 'reset' } — drop resampler history and the WAV stream's format
+ *     (playback was stopped).
+ *
+ * Posts { type: 'decoded', generation, samples } (Float32Array at outputRate,
+ * transferred) or { type: 'error', generation, message }, in request order.
+ */
+
+// @embed webVoiceDsp.ts (codecs, WAV decoding, StreamingResampler)
+
+// One resampler per input rate keeps chunk edges seamless
+let resampler = null;
+// Format of the WAV stream being played; its later chunks have no header
+let wavFormat = null;
+
+self.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'reset') {
+    if (resampler) resampler.reset();
+    wavFormat = null;
+    return;
+  }
+  if (message.type !== 'decode') return;
+
+  const { generation, encoding, outputRate } = message;
+  try {
+    const bytes =
+      message.payload !== undefined
+        ? base64ToBytes(message.payload)
+        : new Uint8Array(message.bytes);
+    const decoded = decodeAudioPayload(bytes, encoding, wavFormat);
+    if (decoded.wavFormat) wavFormat = decoded.wavFormat;
+    const inputRate = decoded.sampleRate || message.sampleRate;
+
+    let samples = decoded.samples;
+    if (inputRate !== outputRate) {
+      if (!resampler || resampler.inputRate !== inputRate) {
+        resampler = new StreamingResampler(inputRate, outputRate);
+      }
+      samples = resampler.process(samples);
+    }
+    self.postMessage({ type: 'decoded', generation, samples }, [
+      samples.buffer,
+    ]);
+  } catch (error) {
+    self.postMessage({ type: 'error', generation, message: error.message });
+  }
+};
@@ -0,0 +1,2 @@
+/** Generated by scripts/embed-worklet.mjs - do not edit */
+export const decodeWorkerSource = "/**\n * Web Worker: decodes and resamples inbound TTS off the main thread.\n * Embedded like the worklet (see scripts/embed-worklet.mjs) and loaded from a Blob URL.\n *\n * Messages from the main thread:\n *   { type: 'decode', generation, bytes | payload, encoding, sampleRate, outputRate }\n *     — `bytes` (ArrayBuffer, transferred) or a JSON message's base64 `payload`,\n *     in `encoding`; `sampleRate` is the announced rate (WAV payloads carry\n *     their own).\n *   { type: 'reset' } — drop resampler history and the WAV stream's format\n *     (playback was stopped).\n *\n * Posts { type: 'decoded', generation, samples } (Float32Array at outputRate,\n * transferred) or { type: 'error', generation, message }, in request order.\n */\n\n// ---- webVoiceDsp.ts (spliced in by scripts/embed-worklet.mjs) ----\n/**\n * webVoiceDsp — G.711 / PCM16 codecs, base64, WAV decoding and resampling\n *\n * The one copy of this code. The main thread imports it; the capture worklet\n * and the decode worker can't import modules, so scripts/embed-worklet.mjs\n * compiles it into their sources. Keep it free of imports and of globals\n * those scopes lack (no DOM, no Blob, no btoa/atob in the worklet).\n */\n/** Float32 [-1, 1] → Int16 sample, truncated toward zero like an Int16Array store. */\nconst floatToInt16 = (sample) => {\n    const s = Math.max(-1, Math.min(1, sample));\n    return Math.trunc(s < 0 ? s * 0x8000 : s * 0x7fff);\n};\n/** Float32 [-1, 1] → Int16 PCM for encoding. */\nfunction floatTo16BitPCM(float32Array) {\n    const int16Array = new Int16Array(float32Array.length);\n    for (let i = 0; i < float32Array.length; i++) {\n        int16Array[i] = floatToInt16(float32Array[i]);\n    }\n    return int16Array;\n}\nconst convertPCMDataToFloat32 = (pcm16Data) => {\n    const float32Data = new Float32Array(pcm16Data.length);\n    for (let i = 0; i < pcm16Data.length; i++) {\n        float32Data[i] = pcm16Data[i] / (pcm16Data[i] < 0 ? 0x8000 : 0x7fff);\n    }\n    return float32Data;\n};\n/** One Int16 sample → µ-law byte. */\nconst encodeMuLawSample = (pcm) => {\n    const BIAS = 0x84;\n    const CLIP = 32635;\n    let sample = pcm;\n    const sign = (sample >> 8) & 0x80;\n    if (sign)\n        sample = -sample;\n    // Clip sample to max value\n    if (sample > CLIP)\n        sample = CLIP;\n    sample += BIAS;\n    let exponent = 7;\n    for (; exponent > 0; exponent--) {\n        if (sample & 0x4000)\n            break;\n        sample <<= 1;\n    }\n    const mantissa = (sample >> 9) & 0x0f;\n    return ~(sign | (exponent << 4) | mantissa) & 0xff;\n};\n/** G.711 A-law segment end points (13-bit magnitude). */\nconst ALAW_SEGMENT_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];\n/** One Int16 sample → A-law byte. */\nconst encodeALawSample = (pcm) => {\n    // A-law works on 13-bit samples\n    let sample = pcm >> 3;\n    let mask;\n    if (sample >= 0) {\n        mask = 0xd5;\n    }\n    else {\n        mask = 0x55;\n        sample = -sample - 1;\n    }\n    // Find the segment\n    let segment = 0;\n    while (segment < 8 && sample > ALAW_SEGMENT_END[segment]) {\n        segment++;\n    }\n    // Out of range, clip to max\n    if (segment >= 8)\n        return 0x7f ^ mask;\n    const aLawByte = (segment << 4) | ((sample >> (segment < 2 ? 1 : segment)) & 0x0f);\n    return aLawByte ^ mask;\n};\nfunction linearToMuLaw(pcm) {\n    const muLawCompressed = new Uint8Array(pcm.length);\n    for (let i = 0; i < pcm.length; i++) {\n        muLawCompressed[i] = encodeMuLawSample(pcm[i]);\n    }\n    return muLawCompressed;\n}\nfunction linearToALaw(pcm) {\n    const aLawCompressed = new Uint8Array(pcm.length);\n    for (let i = 0; i < pcm.length; i++) {\n        aLawCompressed[i] = encodeALawSample(pcm[i]);\n    }\n    return aLawCompressed;\n}\nfunction muLawToLinear(muLaw) {\n    const BIAS = 0x84;\n    const pcm = new Int16Array(muLaw.length);\n    for (let i = 0; i < muLaw.length; i++) {\n        // µ-law bytes are stored inverted\n        const ulawByte = ~muLaw[i] & 0xff;\n        const sign = ulawByte & 0x80;\n        const exponent = (ulawByte >> 4) & 0x07;\n        const mantissa = ulawByte & 0x0f;\n        const sample = (((mantissa << 3) + BIAS) << exponent) - BIAS;\n        pcm[i] = sign ? -sample : sample;\n    }\n    return pcm;\n}\nfunction aLawToLinear(aLaw) {\n    const pcm = new Int16Array(aLaw.length);\n    for (let i = 0; i < aLaw.length; i++) {\n        const aLawByte = aLaw[i] ^ 0x55;\n        const segment = (aLawByte & 0x70) >> 4;\n        let sample = (aLawByte & 0x0f) << 4;\n        if (segment === 0) {\n            sample += 8;\n        }\n        else {\n            sample = (sample + 0x108) << (segment - 1);\n        }\n        pcm[i] = aLawByte & 0x80 ? sample : -sample;\n    }\n    return pcm;\n}\n/** Int16 PCM → little-endian bytes. */\nfunction pcm16ToBytes(pcm) {\n    const bytes = new Uint8Array(pcm.length * 2);\n    const view = new DataView(bytes.buffer);\n    for (let i = 0; i < pcm.length; i++) {\n        view.setInt16(i * 2, pcm[i], true);\n    }\n    return bytes;\n}\n/** Float32 chunk → bytes in a built-in codec (a Uint8Array over its own buffer). */\nconst encodeAudioChunk = (samples, encoding) => {\n    if (encoding === 'pcm16') {\n        const bytes = new Uint8Array(samples.length * 2);\n        const view = new DataView(bytes.buffer);\n        for (let i = 0; i < samples.length; i++) {\n            view.setInt16(i * 2, floatToInt16(samples[i]), true);\n        }\n        return bytes;\n    }\n    const encode = encoding === 'alaw' ? encodeALawSample : encodeMuLawSample;\n    const bytes = new Uint8Array(samples.length);\n    for (let i = 0; i < samples.length; i++) {\n        bytes[i] = encode(floatToInt16(samples[i]));\n    }\n    return bytes;\n};\nconst BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';\nconst BASE64_VALUES = new Int8Array(128).fill(-1);\nfor (let i = 0; i < BASE64_ALPHABET.length; i++) {\n    BASE64_VALUES[BASE64_ALPHABET.charCodeAt(i)] = i;\n}\n/** Bytes → base64, for JSON `media` payloads. */\nconst bytesToBase64 = (bytes) => {\n    const chars = [];\n    let i = 0;\n    for (; i + 2 < bytes.length; i += 3) {\n        const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];\n        chars.push(BASE64_ALPHABET[n >> 18] +\n            BASE64_ALPHABET[(n >> 12) & 63] +\n            BASE64_ALPHABET[(n >> 6) & 63] +\n            BASE64_ALPHABET[n & 63]);\n    }\n    const rest = bytes.length - i;\n    if (rest > 0) {\n        const n = (bytes[i] << 16) | (rest === 2 ? bytes[i + 1] << 8 : 0);\n        chars.push(BASE64_ALPHABET[n >> 18] +\n            BASE64_ALPHABET[(n >> 12) & 63] +\n            (rest === 2 ? BASE64_ALPHABET[(n >> 6) & 63] : '=') +\n            '=');\n    }\n    return chars.join('');\n};\n/** base64 (padding optional) → bytes. Throws on characters outside the alphabet. */\nconst base64ToBytes = (base64) => {\n    let length = base64.length;\n    while (length > 0 && base64[length - 1] === '=')\n        length--;\n    const bytes = new Uint8Array(Math.floor((length * 3) / 4));\n    let bits = 0;\n    let value = 0;\n    let index = 0;\n    for (let i = 0; i < length; i++) {\n        const code = base64.charCodeAt(i);\n        const digit = code < 128 ? BASE64_VALUES[code] : -1;\n        if (digit < 0)\n            throw new Error('Invalid base64 payload');\n        value = (value << 6) | digit;\n        bits += 6;\n        if (bits >= 8) {\n            bits -= 8;\n            bytes[index++] = (value >> bits) & 0xff;\n        }\n    }\n    return bytes;\n};\n/** WAVE `fmt ` AudioFormat codes. */\nconst WAV_FORMAT = {\n    pcm: 1,\n    float: 3,\n    alaw: 6,\n    mulaw: 7,\n};\nconst readChunkId = (view, offset) => String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));\n/**\n * Parse a RIFF/WAVE header, walking chunks to find `fmt ` and `data`.\n * Returns null when `bytes` does not start with a WAV header.\n */\nconst parseWavHeader = (bytes) => {\n    if (bytes.length < 12)\n        return null;\n    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);\n    if (readChunkId(view, 0) !== 'RIFF' || readChunkId(view, 8) !== 'WAVE') {\n        return null;\n    }\n    let format = null;\n    let offset = 12;\n    while (offset + 8 <= bytes.length) {\n        const id = readChunkId(view, offset);\n        const size = view.getUint32(offset + 4, true);\n        const body = offset + 8;\n        if (id === 'fmt ') {\n            format = {\n                audioFormat: view.getUint16(body, true),\n                channels: view.getUint16(body + 2, true),\n                sampleRate: view.getUint32(body + 4, true),\n                bitsPerSample: view.getUint16(body + 14, true),\n            };\n        }\n        else if (id === 'data') {\n            if (!format)\n                break;\n            // Streamed WAVs often carry a placeholder size; clamp to what we have\n            const end = Math.min(bytes.length, body + size);\n            return { format, data: bytes.subarray(body, end) };\n        }\n        // Chunks are word-aligned\n        offset = body + size + (size % 2);\n    }\n    throw new Error('Malformed WAV payload: missing fmt or data chunk');\n};\n/** Mix interleaved channels down to mono. */\nconst downmix = (interleaved, channels) => {\n    if (channels <= 1)\n        return interleaved;\n    const mono = new Float32Array(Math.floor(interleaved.length / channels));\n    for (let i = 0; i < mono.length; i++) {\n        let sum = 0;\n        for (let c = 0; c < channels; c++) {\n            sum += interleaved[i * channels + c];\n        }\n        mono[i] = sum / channels;\n    }\n    return mono;\n};\n/** 16-bit PCM bytes → Int16 in the given byte order (odd trailing byte ignored). */\nconst bytesToPCM16 = (bytes, littleEndian) => {\n    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);\n    const pcm = new Int16Array(Math.floor(bytes.length / 2));\n    for (let i = 0; i < pcm.length; i++) {\n        pcm[i] = view.getInt16(i * 2, littleEndian);\n    }\n    return pcm;\n};\n/** WAV sample data in `format` → mono Float32. */\nconst decodeWavData = (data, format) => {\n    let interleaved;\n    if (format.audioFormat === WAV_FORMAT.pcm && format.bitsPerSample === 16) {\n        interleaved = convertPCMDataToFloat32(bytesToPCM16(data, true));\n    }\n    else if (format.audioFormat === WAV_FORMAT.mulaw) {\n        interleaved = convertPCMDataToFloat32(muLawToLinear(data));\n    }\n    else if (format.audioFormat === WAV_FORMAT.alaw) {\n        interleaved = convertPCMDataToFloat32(aLawToLinear(data));\n    }\n    else if (format.audioFormat === WAV_FORMAT.float &&\n        format.bitsPerSample === 32) {\n        interleaved = new Float32Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.length - (data.length % 4)));\n    }\n    else {\n        throw new Error(`Unsupported WAV format: AudioFormat ${format.audioFormat}, ${format.bitsPerSample}-bit`);\n    }\n    return downmix(interleaved, format.channels);\n};\n// A streamed WAV has its header in the first chunk only; later chunks are\n// bare data in that format (`streamFormat`, from the previous chunk)\nconst decodeWav = (bytes, streamFormat) => {\n    const wav = parseWavHeader(bytes);\n    const format = wav?.format ?? streamFormat;\n    if (!format)\n        throw new Error('Headerless WAV chunk before any WAV header');\n    return {\n        samples: decodeWavData(wav?.data ?? bytes, format),\n        sampleRate: format.sampleRate,\n        wavFormat: format,\n    };\n};\n/**\n * Decode an inbound TTS payload (a WebVoiceInputEncoding) to mono Float32.\n * `sampleRate` and `wavFormat` are only set for WAV; pass `wavFormat` back\n * with the stream's next chunk, which may have no header.\n * Throws on unknown encodings rather than playing noise.\n */\nconst decodeAudioPayload = (bytes, encoding, wavFormat = null) => {\n    switch (encoding) {\n        case 'pcm16':\n        case 'pcm16le':\n            return { samples: convertPCMDataToFloat32(bytesToPCM16(bytes, true)) };\n        case 'pcm16be':\n            return { samples: convertPCMDataToFloat32(bytesToPCM16(bytes, false)) };\n        case 'mulaw':\n            return { samples: convertPCMDataToFloat32(muLawToLinear(bytes)) };\n        case 'alaw':\n            return { samples: convertPCMDataToFloat32(aLawToLinear(bytes)) };\n        case 'wav':\n            return decodeWav(bytes, wavFormat);\n        default:\n            throw new Error(`Unsupported input encoding: ${encoding}`);\n    }\n};\n/**\n * Streaming windowed-sinc resampler (polyphase table, Blackman window).\n * When downsampling, the cutoff sits just below the output Nyquist so the\n * result is anti-aliased. Keeps filter history between calls, so feed it\n * consecutive chunks of one stream; output lags input by `zeroCrossings`\n * input samples (scaled by the ratio when downsampling).\n */\nclass StreamingResampler {\n    constructor(inputRate, outputRate, zeroCrossings = 8, phases = 128) {\n        this.inputRate = inputRate;\n        this.outputRate = outputRate;\n        // Input samples per output sample\n        this.step = inputRate / outputRate;\n        // Cutoff as a fraction of the input Nyquist, with a little transition band\n        const cutoff = Math.min(1, outputRate / inputRate) * 0.95;\n        this.halfWidth = Math.ceil(zeroCrossings / cutoff);\n        this.taps = this.halfWidth * 2;\n        this.phases = phases;\n        this.kernel = new Float32Array((phases + 1) * this.taps);\n        for (let p = 0; p <= phases; p++) {\n            const base = p * this.taps;\n            let sum = 0;\n            for (let j = 0; j < this.taps; j++) {\n                // Distance from the output position to input tap j\n                const distance = p / phases - (j - this.halfWidth + 1);\n                const x = distance * cutoff;\n                const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);\n                const w = (Math.PI * distance) / this.halfWidth;\n                const window = 0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w);\n                this.kernel[base + j] = sinc * Math.max(0, window);\n                sum += this.kernel[base + j];\n            }\n            // Normalise each phase to unity DC gain\n            for (let j = 0; j < this.taps; j++) {\n                this.kernel[base + j] /= sum;\n            }\n        }\n        this.history = new Float32Array(this.taps);\n        this.time = this.taps;\n    }\n    /** Resample the next chunk of the stream. */\n    process(input) {\n        const buffer = new Float32Array(this.taps + input.length);\n        buffer.set(this.history);\n        buffer.set(input, this.taps);\n        const output = new Float32Array(Math.ceil(buffer.length / this.step) + 1);\n        let count = 0;\n        let time = this.time;\n        while (Math.floor(time) + this.halfWidth < buffer.length) {\n            const index = Math.floor(time);\n            const phase = Math.round((time - index) * this.phases);\n            const base = phase * this.taps;\n            const start = index - this.halfWidth + 1;\n            let acc = 0;\n            for (let j = 0; j < this.taps; j++) {\n                acc += buffer[start + j] * this.kernel[base + j];\n            }\n            output[count++] = acc;\n            time += this.step;\n        }\n        // Keep the last `taps` samples as history for the next chunk\n        const consumed = buffer.length - this.taps;\n        this.history = buffer.slice(consumed);\n        this.time = time - consumed;\n        return output.slice(0, count);\n    }\n    /** Input samples the filter needs beyond an output position. */\n    get lookahead() {\n        return this.halfWidth;\n    }\n    /** Forget history (e.g. after a barge or a new utterance). */\n    reset() {\n        this.history.fill(0);\n        this.time = this.taps;\n    }\n}\n// ---- end webVoiceDsp.ts ----\n\n// One resampler per input rate keeps chunk edges seamless\nlet resampler = null;\n// Format of the WAV stream being played; its later chunks have no header\nlet wavFormat = null;\n\nself.onmessage = (event) => {\n  const message = event.data;\n  if (message.type === 'reset') {\n    if (resampler) resampler.reset();\n    wavFormat = null;\n    return;\n  }\n  if (message.type !== 'decode') return;\n\n  const { generation, encoding, outputRate } = message;\n  try {\n    const bytes =\n      message.payload !== undefined\n        ? base64ToBytes(message.payload)\n        : new Uint8Array(message.bytes);\n    const decoded = decodeAudioPayload(bytes, encoding, wavFormat);\n    if (decoded.wavFormat) wavFormat = decoded.wavFormat;\n    const inputRate = decoded.sampleRate || message.sampleRate;\n\n    let samples = decoded.samples;\n    if (inputRate !== outputRate) {\n      if (!resampler || resampler.inputRate !== inputRate) {\n        resampler = new StreamingResampler(inputRate, outputRate);\n      }\n      samples = resampler.process(samples);\n    }\n    self.postMessage({ type: 'decoded', generation, samples }, [\n      samples.buffer,\n    ]);\n  } catch (error) {\n    self.postMessage({ type: 'error', generation, message: error.message });\n  }\n};\n";
@@ -6,10 +6,81 @@
  */
 
 export { useWebSocketAudio, CHANNELS, BITS_PER_SAMPLE } from './useWebVoice';
+export { WebVoiceClient } from './webVoiceClient';
+export {
+  encodeMediaFrame,
+  decodeMediaFrame,
+  MEDIA_FRAME_HEADER_SIZE,
+  MEDIA_FRAME_CODECS,
+} from './webVoiceFrames';
+export {
+  WebVoiceProtocolError,
+  isServerMessage,
+  isClientMessage,
+  isServerEvent,
+  isClientEvent,
+  getServerMessageError,
+  getClientMessageError,
+  parseServerMessage,
+  parseTranscriptMessage,
+} from './webVoiceProtocol';
 
 export type {
   IUseWebVoiceOptions,
+  IWebVoiceClientOptions,
+  IWebVoiceClientEvents,
+  IWebVoiceReconnectPolicy,
+  IWebVoiceVadOptions,
+  IWebVoiceAudioEncoder,
+  WebVoiceCodec,
+  WebVoiceInputEncoding,
+  WebVoiceTransport,
+  WebVoiceMediaFraming,
+  WebVoiceMicMode,
+  IWebVoiceMediaFrameHeader,
+  WebVoiceCloseSource,
+  IWebVoiceRecordingOptions,
+  IWebVoiceRecordingChunk,
+  IWebVoiceRecordingTracks,
+  IWebVoiceAuthOptions,
+  WebVoiceTokenReason,
+  IWebVoiceStartContext,
+  IWebVoiceStartAckOptions,
+  IWebVoiceHeartbeatOptions,
+  IWebVoiceStats,
+  IWebVoiceJitterBufferOptions,
+  IWebVoiceCompressorOptions,
+  IWebVoiceCaptureOptions,
+  WebVoiceProcessingStage,
+  IWebVoiceHighPassStage,
+  IWebVoiceNoiseGateStage,
+  IWebVoiceGainStage,
+  IWebVoiceCompressorStage,
+  IWebVoiceCustomNodeStage,
+  IWebVoiceWorkletStage,
+  IWebVoiceEchoSuppressionOptions,
+  IWebVoiceTranscriptOptions,
+  IWebVoiceTranscriptUpdate,
+  IWebVoiceTranscriptEntry,
+  WebVoiceTranscriptRole,
+  WebVoiceConversationState,
   IWebVoiceLogger,
   ISocketEventData,
   ISocketMessage,
+  WebVoiceClientMessage,
+  WebVoiceServerMessage,
+  IWebVoiceStartMessage,
+  IWebVoiceClientMediaMessage,
+  IWebVoicePingMessage,
+  IWebVoiceTtsPlayingMessage,
+  IWebVoiceClientBargeMessage,
+  IWebVoiceEndOfUtteranceMessage,
+  IWebVoiceEndOfConversationMessage,
+  IWebVoiceTextMessage,
+  IWebVoiceCustomMessage,
+  IWebVoiceServerMediaMessage,
+  IWebVoiceServerBargeMessage,
+  IWebVoiceStopMessage,
+  IWebVoiceServerEndOfConversationMessage,
+  IWebVoiceServerPingMessage,
 } from './webVoice';
@@ -0,0 +1,23 @@
+/**
+ * GnaniWebVoiceHook — Test helpers (`@gnani.ai/web-voice-hook/testing`)
+ *
+ * A mock voice backend for Node and fake mic / Web Audio globals for jsdom,
+ * so the hook and client can be exercised end-to-end without a server or
+ * audio hardware. Requires the optional `ws` peer dependency.
+ */
+
+export { WebVoiceMockServer } from './webVoiceMockServer';
+export { WebVoiceMockAudio, installMockAudio } from './webVoiceMockAudio';
+
+export type {
+  MockVoiceControlEvent,
+  IMockVoiceReceived,
+  MockVoiceCue,
+  IMockVoiceTts,
+  IMockVoiceStep,
+  IMockVoiceServerOptions,
+} from './webVoiceMockServer';
+export type {
+  IMockAudioOptions,
+  IMockAudioPlayback,
+} from './webVoiceMockAudio';
@@ -1,825 +1,169 @@
 /**
  * useWebVoice — React hook for real-time WebSocket voice (STT/TTS)
  *
- * Handles: mic capture → WebSocket, TTS playback ← WebSocket, optional visualizer,
- * connect / disconnect / reconnect with full cleanup.
+ * Thin React binding over WebVoiceClient: mirrors connection/playback state
+ * into React state and forwards client events to the `events` callbacks.
  *
  * @see README.md for setup (worklet path, peer deps) and usage examples.
  */
 
-import AudioMotionAnalyzer from 'audiomotion-analyzer';
-import { useCallback, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
-import { audioProcessorSource } from './audioProcessorSource.generated';
-import type { ISocketEventData, IUseWebVoiceOptions } from './webVoice';
-import {
-  applyCustomColor,
-  base64ToPCM16Data,
-  convertPCMDataToFloat32,
-  getBase64Audio,
-  getVisualizerOptions,
-  resampleAudio,
-  resetAudioInput,
-} from './webVoiceUtils';
+import type { IUseWebVoiceOptions } from './webVoice';
+import { WebVoiceClient } from './webVoiceClient';
 
-/** Default sample rate for capture and playback (Hz). */
-const SAMPLE_RATE = 44100;
-export const CHANNELS = 1;
-export const BITS_PER_SAMPLE = 16;
-
-/** Default logger when none is provided (console; safe for package use). */
-const defaultLogger = {
-  info: (arg: unknown, ...args: unknown[]) =>
-    // eslint-disable-next-line no-console
-    console.log('[GnaniWebVoice]', arg, ...args),
-  error: (arg: unknown, ...args: unknown[]) =>
-    // eslint-disable-next-line no-console
-    console.error('[GnaniWebVoice]', arg, ...args),
-};
+export { CHANNELS, BITS_PER_SAMPLE } from './webVoiceClient';
 
 /**
  * React hook for bidirectional WebSocket voice: mic → server, TTS ← server.
  *
  * @param options - websocketUrl, optional workletPath, visualizerOptions, events, logger.
- * @returns { isConnected, isPlaying, connect, disconnect, reconnect, startRecording, stopRecording, isRecording }
+ * @returns { isConnected, isPlaying, isUserSpeaking, reconnecting, reconnectAttempt, rttMs, conversationState, transcript, partialTranscript, connect, disconnect, reconnect, startRecording, stopRecording, isRecording, isMuted, mute, unmute, pressToTalk, releaseToTalk, listInputDevices, switchInputDevice, listOutputDevices, setOutputDevice, volume, setVolume, getRecording, getRecordingTracks, clearRecording, getStats, on, sendEvent, sendText }
  */
-export const useWebSocketAudio = ({
-  websocketUrl,
-  workletPath,
-  visualizerOptions: {
-    elementId: visualizerElementId,
-    color: visualizerColor,
-    options: visualizerOptions,
-  } = {},
-  events: eventsOption,
-  logger: loggerOption,
-}: IUseWebVoiceOptions) => {
-  const { onOpen, onClose, onException } = eventsOption ?? {};
-  const logger = loggerOption ?? defaultLogger;
-
-  const [isPlaying, setIsPlaying] = useState(false);
-
-  const websocketRef = useRef<WebSocket | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const isPlayingRef = useRef(false);
-  const isFirstChunk = useRef(true);
-  const streamRef = useRef<MediaStream>();
-  const isAudioNodesConnected = useRef(false);
-  const isCleanedUp = useRef(false);
-  const backendSampleRate = useRef(SAMPLE_RATE);
-  const isStopReceived = useRef(false);
-  const lastSentTTSEvent = useRef(false);
-  const chunkReceivedAt = useRef(0);
-  const nextPlayTimeRef = useRef(0);
-  const pendingSourcesRef = useRef(0);
-
-  const analyzerRef = useRef<AudioMotionAnalyzer | null>(null);
-  const pingIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-
-  const [isConnected, setIsConnected] = useState(false);
-  const isPlayingAudio = useRef(false);
-
-  const BUFFER_DURATION = 1; // Buffer duration in seconds
-  const bufferSize = SAMPLE_RATE * CHANNELS * BUFFER_DURATION; // Calculate buffer size based on sample rate and channels
-
-  const audioBufferRef = useRef<Float32Array[]>([]);
-
-  // Create a single AudioContext instance
-  const getOrCreateAudioContext = useCallback(() => {
-    if (
-      !audioContextRef.current ||
-      audioContextRef.current.state === 'closed'
-    ) {
-      audioContextRef.current = new (window.AudioContext ||
-        (window as any).webkitAudioContext)({
-        sampleRate: SAMPLE_RATE,
-        latencyHint: 'playback',
-      });
-    }
-    return audioContextRef.current;
-  }, []);
-
-  const initializeVisualizer = useCallback(
-    (source: AudioBufferSourceNode | MediaStreamAudioSourceNode) => {
-      if (visualizerElementId && !analyzerRef.current && !isCleanedUp.current) {
-        const analyzer = new AudioMotionAnalyzer(
-          document.getElementById(visualizerElementId)!,
-          {
-            ...(visualizerOptions ?? getVisualizerOptions(source)),
-          }
-        );
-
-        // Start the analyzer
-        analyzer.start();
-
-        if (visualizerColor) {
-          applyCustomColor(analyzer, visualizerColor);
-        }
-
-        analyzerRef.current = analyzer;
-      } else {
-        analyzerRef.current?.connectInput(source);
-      }
-    },
-    []
-  );
-
-  const setupAudioStream = useCallback(async () => {
-    if (isAudioNodesConnected.current) return;
-
-    resetAudioInput(streamRef.current);
-
-    try {
-      // Enhanced audio constraints with stronger echo cancellation
-      streamRef.current = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: SAMPLE_RATE,
-          channelCount: CHANNELS,
-          echoCancellation: {
-            ideal: true,
-          },
-          noiseSuppression: {
-            ideal: true,
-          },
-          autoGainControl: {
-            ideal: true,
-          },
-        },
-      });
-
-      const audioContext = getOrCreateAudioContext();
-
-      const source = audioContext.createMediaStreamSource(streamRef.current);
-
-      // Adjusted compressor settings for echo reduction
-      const compressor = audioContext.createDynamicsCompressor();
-      compressor.threshold.value = -30;
-      compressor.knee.value = 40;
-      compressor.ratio.value = 8;
-      compressor.attack.value = 0.002;
-      compressor.release.value = 0.1;
-
-      // Reduced gain to prevent feedback
-      const gainNode = audioContext.createGain();
-      gainNode.gain.value = 1.2;
-
-      // Don't connect to destination to prevent feedback loop
-      source.connect(compressor).connect(gainNode);
-
-      initializeVisualizer(source);
-
-      isAudioNodesConnected.current = true;
-    } catch (e) {
-      logger.error('Error setting up audio stream:', e);
-      onException?.(e as unknown as Error);
-      throw e;
-    }
-  }, [getOrCreateAudioContext, initializeVisualizer]);
-
-  const { startProcessing, stopProcessing, isProcessing } = useMemo(() => {
-    let audioWorkletNode: AudioWorkletNode | null = null;
-    let sourceNode: MediaStreamAudioSourceNode | null = null;
-
-    const start = async () => {
-      if (!streamRef.current) return;
-
-      try {
-        const audioContext = getOrCreateAudioContext();
-
-        // Load the Audio Worklet: use embedded (Blob URL) when workletPath omitted, else fetch from URL
-        const useEmbedded = workletPath === undefined || workletPath === '';
-        const workletUrl = useEmbedded
-          ? URL.createObjectURL(
-              new Blob([audioProcessorSource], {
-                type: 'application/javascript',
-              })
-            )
-          : workletPath;
-        try {
-          await audioContext.audioWorklet.addModule(workletUrl);
-        } finally {
-          if (useEmbedded) {
-            URL.revokeObjectURL(workletUrl);
-          }
-        }
-
-        sourceNode = audioContext.createMediaStreamSource(streamRef.current);
-
-        audioWorkletNode = new AudioWorkletNode(
-          audioContext,
-          'audio-processor',
-          {
-            numberOfInputs: 1,
-            numberOfOutputs: 1,
-            channelCount: 1,
-            processorOptions: {
-              sampleRate: audioContext.sampleRate,
-            },
-          }
-        );
-
-        // Update message handling to match the worklet's message format
-        audioWorkletNode.port.onmessage = (event) => {
-          if (websocketRef.current?.readyState === WebSocket.OPEN) {
-            const { data, timestamp } = event.data;
-            const base64Data = getBase64Audio(data);
-
-            websocketRef.current.send(
-              JSON.stringify({
-                event: 'media',
-                media: {
-                  payload: base64Data,
-                  timestamp,
-                },
-              })
-            );
-          }
-        };
-
-        sourceNode.connect(audioWorkletNode);
-      } catch (error) {
-        logger.error('Failed to start audio processing:', error);
-        onException?.(error as unknown as Error);
-      }
-    };
-
-    const stop = () => {
-      if (audioWorkletNode) {
-        audioWorkletNode.disconnect();
-        audioWorkletNode = null;
-      }
-      if (sourceNode) {
-        sourceNode.disconnect();
-        sourceNode = null;
-      }
-    };
-
-    return {
-      startProcessing: start,
-      stopProcessing: stop,
-      isProcessing: !!audioWorkletNode,
-    };
-  }, [getOrCreateAudioContext, workletPath]);
-
-  const processAudioChunk = useCallback(
-    (payload: string) => {
-      // Use the existing AudioContext instead of creating a new one
-      getOrCreateAudioContext();
-
-      try {
-        // Convert base64 to 16-bit PCM format
-        const pcm16Data = base64ToPCM16Data(payload);
-        const float32Data = convertPCMDataToFloat32(pcm16Data);
-
-        // Resample audio data if necessary
-        const rightSampled =
-          backendSampleRate.current === SAMPLE_RATE
-            ? float32Data
-            : resampleAudio(
-                float32Data,
-                backendSampleRate.current,
-                SAMPLE_RATE
-              );
-
-        audioBufferRef.current.push(rightSampled);
-
-         // Start playback if we have enough data
-         const totalBufferedSamples = audioBufferRef.current.reduce(
-          (acc, chunk) => acc + chunk.length,
-          0
-        );
-
-        if (
-          totalBufferedSamples >= bufferSize ||
-          isPlayingAudio.current ||
-          (isStopReceived.current && totalBufferedSamples > 0)
-        ) {
-          playNextChunk();
-        }
-      } catch (error) {
-        logger.error('Error processing audio chunk:', error);
-      }
-    },
-    [getOrCreateAudioContext]
+export const useWebSocketAudio = (options: IUseWebVoiceOptions) => {
+  const { events, ...clientOptions } = options;
+
+  const clientRef = useRef<WebVoiceClient>();
+  if (!clientRef.current) {
+    clientRef.current = new WebVoiceClient(clientOptions);
+  }
+  const client = clientRef.current;
+  client.setOptions(clientOptions);
+
+  // Latest callbacks, so subscriptions below never go stale
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+
+  const [isConnected, setIsConnected] = useState(client.isConnected);
+  const [isPlaying, setIsPlaying] = useState(client.isPlaying);
+  const [isRecording, setIsRecording] = useState(client.isRecording);
+  const [isMuted, setIsMuted] = useState(client.isMuted);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(client.isUserSpeaking);
+  const [volume, setVolume] = useState(client.volume);
+  const [transcript, setTranscript] = useState(client.transcript);
+  const [partialTranscript, setPartialTranscript] = useState(
+    client.partialTranscript
   );
-
-  const playNextChunk = useCallback(() => {
-    const audioContext = getOrCreateAudioContext();
-    if (!audioContext) return;
-
-    const getBufferedSamples = () =>
-      audioBufferRef.current.reduce((acc, chunk) => acc + chunk.length, 0);
-
-    let bufferedSamples = getBufferedSamples();
-    const shouldPlayRemainder = isStopReceived.current && bufferedSamples > 0;
-
-    // Ensure we have enough buffer before starting playback
-    if (
-      !isPlayingAudio.current &&
-      bufferedSamples < bufferSize &&
-      !shouldPlayRemainder
-    ) {
-      return;
-    }
-
-    while (audioBufferRef.current.length > 0) {
-      // If we are already playing, keep scheduling when we have enough data.
-      if (
-        !shouldPlayRemainder &&
-        !isPlayingAudio.current &&
-        bufferedSamples < bufferSize
-      ) {
-        break;
-      }
-
-      // Take chunks from the buffer until we have enough data
-      let totalLength = 0;
-      const chunks: Float32Array[] = [];
-
-      while (audioBufferRef.current.length > 0 && totalLength < bufferSize) {
-        const chunk = audioBufferRef.current.shift()!;
-        chunks.push(chunk);
-        totalLength += chunk.length;
-      }
-
-      if (totalLength === 0) {
-        break;
-      }
-
-      // Concatenate the chunks into a single Float32Array
-      const audioData = new Float32Array(totalLength);
-      let offset = 0;
-      for (const chunk of chunks) {
-        audioData.set(chunk, offset);
-        offset += chunk.length;
-      }
-
-      // Create a new audio buffer with our desired specifications
-      const audioBuffer = audioContext.createBuffer(
-        1,
-        audioData.length,
-        SAMPLE_RATE
-      );
-
-      // Copy our audio data into the buffer
-      audioBuffer.getChannelData(0).set(audioData);
-
-      // Create a new audio source node for playing this buffer
-      const source = audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContext.destination);
-
-      // Initialize the AudioMotionAnalyzer with the AudioBufferSourceNode
-      initializeVisualizer(source);
-
-      // Schedule slightly ahead to avoid gap/tick artifacts
-      const safetyOffset = 0.02;
-      const startTime = Math.max(
-        audioContext.currentTime + safetyOffset,
-        nextPlayTimeRef.current || 0
-      );
-
-      if (!lastSentTTSEvent.current) {
-        websocketRef.current?.send(
-          JSON.stringify({
-            event: 'TTS_PLAYING',
-            media: {
-              tts_playing: true,
-            },
-          })
-        );
-        lastSentTTSEvent.current = true;
-      }
-
-      isPlayingAudio.current = true;
-      setIsPlaying(true);
-      pendingSourcesRef.current += 1;
-
-      source.onended = () => {
-        pendingSourcesRef.current = Math.max(0, pendingSourcesRef.current - 1);
-
-        if (
-          pendingSourcesRef.current === 0 &&
-          audioBufferRef.current.length === 0
-        ) {
-          isPlayingAudio.current = false;
-          setIsPlaying(false);
-          websocketRef.current?.send(
-            JSON.stringify({
-              event: 'TTS_PLAYING',
-              media: {
-                tts_playing: false,
-              },
-            })
-          );
-          lastSentTTSEvent.current = false;
-
-          if (isStopReceived.current) {
-            websocketRef.current?.close();
-          }
-        }
-      };
-
-      source.start(startTime);
-      nextPlayTimeRef.current = startTime + audioBuffer.duration;
-      sourceNodeRef.current = source;
-      isPlayingRef.current = true;
-
-      bufferedSamples -= totalLength;
-    }
-  }, [getOrCreateAudioContext, initializeVisualizer]);
-
-  const processAudioMessage = useCallback(
-    async (message: ISocketEventData) => {
-      try {
-        if (message.event === 'media' && message.media?.payload) {
-          if (chunkReceivedAt.current === 0) {
-            chunkReceivedAt.current = Date.now();
-            logger.info('Chunk received at:', chunkReceivedAt.current);
-          }
-          backendSampleRate.current = message.sample_rate ?? SAMPLE_RATE;
-          processAudioChunk(message.media.payload);
-        } else if (['barge', 'BARGE'].includes(message.event)) {
-          logger.info('Barged');
-          audioBufferRef.current = [];
-        } else if (message.event === 'EOC') {
-          logger.info('EOC event occurred');
-          websocketRef.current?.send(JSON.stringify({ event: 'EOC' }));
-        } else if (message.event === 'stop') {
-          logger.info('Stop event occurred');
-          if (websocketRef.current?.readyState === WebSocket.OPEN) {
-            isStopReceived.current = true;
-          }
-          if (audioBufferRef.current.length > 0) {
-            playNextChunk();
-          }
-        } else {
-          logger.info('Unhandled message type:', message);
-        }
-      } catch (error) {
-        logger.error('Error processing audio message:', error);
-      }
-    },
-    [playNextChunk, processAudioChunk]
+  const [conversationState, setConversationState] = useState(
+    client.conversationState
   );
-
-  const cleanup = useCallback(
-    (source: 'server' | 'client') => {
-      if (isCleanedUp.current) return;
-      isCleanedUp.current = true;
-
-      // Stop recording first
-      stopProcessing();
-
-      // Clear ping interval
-      if (pingIntervalRef.current) {
-        clearInterval(pingIntervalRef.current);
-        pingIntervalRef.current = null;
-      }
-
-      // Clean up WebSocket with additional state check
-      if (websocketRef.current) {
-        if (
-          websocketRef.current.readyState === WebSocket.OPEN ||
-          websocketRef.current.readyState === WebSocket.CONNECTING
-        ) {
-          websocketRef.current.close();
-        }
-        websocketRef.current = null;
-      }
-
-      analyzerRef.current?.stop();
-      analyzerRef.current?.destroy();
-
-      // Clean up audio context
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
-
-      // Clean up audio source
-      if (sourceNodeRef.current) {
-        sourceNodeRef.current.stop();
-        sourceNodeRef.current.disconnect();
-        sourceNodeRef.current = null;
-      }
-
-      // Clean up media stream - Enhanced cleanup
-      if (streamRef.current) {
-        const tracks = streamRef.current.getTracks();
-        tracks.forEach((track) => {
-          track.stop(); // Stop the track
-          track.enabled = false; // Disable the track
-          streamRef.current?.removeTrack(track); // Remove from stream
-        });
-        streamRef.current = undefined;
-      }
-
-      // Reset all buffers and states
-      audioBufferRef.current = [];
-      isPlayingRef.current = false;
-      isAudioNodesConnected.current = false;
-      isFirstChunk.current = true;
-      isPlayingAudio.current = false;
-      isStopReceived.current = false;
-      nextPlayTimeRef.current = 0;
-      pendingSourcesRef.current = 0;
-      setIsPlaying(false);
-
-      // Reset UI states
-      setIsConnected(false);
-
-      // Only call onClose if it wasn't already cleaned up
-      onClose?.(source);
-    },
-    [stopProcessing, onClose]
+  const [rttMs, setRttMs] = useState(client.rttMs);
+  const [reconnecting, setReconnecting] = useState(client.isReconnecting);
+  const [reconnectAttempt, setReconnectAttempt] = useState(
+    client.currentReconnectAttempt
   );
 
-  const connect = useCallback(() => {
-    // Prevent multiple connection attempts
-    if (
-      !websocketUrl ||
-      websocketRef.current ||
-      isCleanedUp.current ||
-      isConnected
-    ) {
-      return;
-    }
-    // Reset all state flags
-    isCleanedUp.current = false;
-    isFirstChunk.current = true;
-
-    const ws = new WebSocket(websocketUrl);
-
-    websocketRef.current = ws;
-
-    ws.onopen = async () => {
-      if (isCleanedUp.current) {
-        ws.close();
-        return;
-      }
-      setIsConnected(true);
-
-      websocketRef.current?.send(
-        JSON.stringify({
-          event: 'ping',
-          metadata: { timestamp: Date.now().toString() },
-        })
-      );
-
-      // Clear any existing ping interval before starting a new one
-      if (pingIntervalRef.current) {
-        clearInterval(pingIntervalRef.current);
-        pingIntervalRef.current = null;
-      }
-      // Keep connection alive with ping every 10 seconds
-      pingIntervalRef.current = setInterval(() => {
-        if (
-          isCleanedUp.current ||
-          websocketRef.current?.readyState !== WebSocket.OPEN
-        ) {
-          if (pingIntervalRef.current) {
-            clearInterval(pingIntervalRef.current);
-            pingIntervalRef.current = null;
-          }
-          return;
-        }
-        websocketRef.current?.send(
-          JSON.stringify({
-            event: 'ping',
-            metadata: { timestamp: Date.now().toString() },
-          })
-        );
-      }, 10_000);
-
-      await setupAudioStream();
-      await startProcessing();
-      ws.send(JSON.stringify({ event: 'start' }));
-    };
-
-    ws.onmessage = (event) => {
-      if (isCleanedUp.current) return;
-      try {
-        const data = JSON.parse(event.data);
-        if (data) {
-          processAudioMessage(data);
-        }
-      } catch (error) {
-        logger.error('Error parsing websocket message:', error);
-      }
-    };
-
-    ws.onclose = (e) => {
-      if (pingIntervalRef.current) {
-        clearInterval(pingIntervalRef.current);
-        pingIntervalRef.current = null;
-      }
-
-      const reason = e.reason;
-      if (reason === 'LINK_EXPIRED') {
-        logger.info('Link expired');
-        location.reload();
-      }
-      // Only trigger cleanup if it wasn't manually initiated
-      if (!isCleanedUp.current) {
-        cleanup('server');
-      }
-      // Stop processing audio when WebSocket closes
-      stopProcessing(); // Ensure audio processing stops
-    };
-
-    ws.onerror = (error) => {
-      logger.error('WebSocket error:', error);
-      onException?.(error as unknown as Error);
-      // Ensure we're not in a cleanup state before triggering another cleanup
-      if (!isCleanedUp.current) {
-        cleanup('server');
-      }
-    };
-  }, [
-    websocketUrl,
-    onOpen,
-    onClose,
-    onException,
-    setupAudioStream,
-    startProcessing,
-    isConnected,
-  ]);
-
-  const disconnect = useCallback(() => {
-    cleanup('client');
-  }, [cleanup]);
+  useEffect(() => {
+    const unsubscribers = [
+      client.on('open', () => {
+        setIsConnected(true);
+        eventsRef.current?.onOpen?.();
+      }),
+      client.on('close', (source) => {
+        setIsConnected(false);
+        setReconnecting(false);
+        setReconnectAttempt(0);
+        setRttMs(null);
+        eventsRef.current?.onClose?.(source);
+      }),
+      client.on('reconnecting', (attempt, delayMs) => {
+        setIsConnected(false);
+        setReconnecting(true);
+        setReconnectAttempt(attempt);
+        eventsRef.current?.onReconnecting?.(attempt, delayMs);
+      }),
+      client.on('reconnected', (attempt) => {
+        setReconnecting(false);
+        setReconnectAttempt(0);
+        eventsRef.current?.onReconnected?.(attempt);
+      }),
+      client.on('playing', setIsPlaying),
+      client.on('recording', setIsRecording),
+      client.on('muted', setIsMuted),
+      client.on('volume', setVolume),
+      client.on('rtt', setRttMs),
+      client.on('error', (error) => eventsRef.current?.onException?.(error)),
+      client.on('speechStart', () => {
+        setIsUserSpeaking(true);
+        eventsRef.current?.onSpeechStart?.();
+      }),
+      client.on('speechEnd', () => {
+        setIsUserSpeaking(false);
+        eventsRef.current?.onSpeechEnd?.();
+      }),
+      client.on('bargeIn', (source) => eventsRef.current?.onBargeIn?.(source)),
+      client.on('deviceChange', (devices, activeDeviceId) =>
+        eventsRef.current?.onDeviceChange?.(devices, activeDeviceId)
+      ),
+      client.on('recordingChunk', (chunk) =>
+        eventsRef.current?.onRecordingChunk?.(chunk)
+      ),
+      client.on('started', (ack) => eventsRef.current?.onStarted?.(ack)),
+      client.on('stats', (stats) => eventsRef.current?.onStats?.(stats)),
+      client.on('authExpired', (reason) =>
+        eventsRef.current?.onAuthExpired?.(reason)
+      ),
+      client.on('transcript', (entry, entries) => {
+        setTranscript(entries);
+        eventsRef.current?.onTranscript?.(entry);
+      }),
+      client.on('partialTranscript', setPartialTranscript),
+      client.on('conversationState', (state) => {
+        setConversationState(state);
+        eventsRef.current?.onConversationStateChange?.(state);
+      }),
+      client.on('message', (message) =>
+        eventsRef.current?.onMessage?.(message)
+      ),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [client]);
 
   const reconnect = useCallback(
     (onConnectionSuccess?: () => void) => {
-      // Force cleanup any existing connection first
-      if (websocketRef.current) {
-        websocketRef.current.close();
-        websocketRef.current = null;
-      }
-
-      // Reset all state flags to ensure clean reconnection
-      isCleanedUp.current = false;
-      isFirstChunk.current = true;
-      isPlayingRef.current = false;
-      isAudioNodesConnected.current = false;
-      isPlayingAudio.current = false;
-      isStopReceived.current = false;
-      nextPlayTimeRef.current = 0;
-      pendingSourcesRef.current = 0;
-
-      // Reset UI states
       setIsConnected(false);
-      setIsPlaying(false);
-
-      // Clear audio buffer
-      audioBufferRef.current = [];
-
-      // Clean up audio context if it exists
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
-
-      // Clean up audio source
-      if (sourceNodeRef.current) {
-        sourceNodeRef.current.stop();
-        sourceNodeRef.current.disconnect();
-        sourceNodeRef.current = null;
-      }
-
-      // Clean up analyzer
-      if (analyzerRef.current) {
-        analyzerRef.current.stop();
-        analyzerRef.current.destroy();
-        analyzerRef.current = null;
-      }
-
-      // Clean up media stream
-      if (streamRef.current) {
-        const tracks = streamRef.current.getTracks();
-        tracks.forEach((track) => {
-          track.stop();
-          track.enabled = false;
-          streamRef.current?.removeTrack(track);
-        });
-        streamRef.current = undefined;
-      }
-
-      // Stop any ongoing processing
-      stopProcessing();
-
-      // Now create a new connection
-      if (!websocketUrl) {
-        logger.error('Cannot reconnect: websocketUrl is required');
-        return;
-      }
-
-      const ws = new WebSocket(websocketUrl);
-
-      websocketRef.current = ws;
-
-      ws.onopen = async () => {
-        if (isCleanedUp.current) {
-          ws.close();
-          return;
-        }
-        setIsConnected(true);
-
-
-        // Clear any existing ping interval before starting a new one
-        if (pingIntervalRef.current) {
-          clearInterval(pingIntervalRef.current);
-          pingIntervalRef.current = null;
-        }
-        // Keep connection alive with ping every 10 seconds
-        pingIntervalRef.current = setInterval(() => {
-          if (
-            isCleanedUp.current ||
-            websocketRef.current?.readyState !== WebSocket.OPEN
-          ) {
-            if (pingIntervalRef.current) {
-              clearInterval(pingIntervalRef.current);
-              pingIntervalRef.current = null;
-            }
-            return;
-          }
-          websocketRef.current?.send(
-            JSON.stringify({
-              event: 'ping',
-              metadata: { timestamp: Date.now().toString() },
-            })
-          );
-        }, 10_000);
-
-        await setupAudioStream();
-        await startProcessing();
-        ws.send(JSON.stringify({ event: 'start' }));
-        onConnectionSuccess?.();
-      };
-
-      ws.onmessage = (event) => {
-        if (isCleanedUp.current) return;
-        try {
-          const data = JSON.parse(event.data);
-          if (data) {
-            processAudioMessage(data);
-          }
-        } catch (error) {
-          logger.error('Error parsing websocket message:', error);
-          onException?.(error as unknown as Error);
-        }
-      };
-
-      ws.onclose = (e) => {
-        if (pingIntervalRef.current) {
-          clearInterval(pingIntervalRef.current);
-          pingIntervalRef.current = null;
-        }
-
-        const reason = e.reason;
-        if (reason === 'LINK_EXPIRED') {
-          logger.info('Link expired');
-          location.reload();
-        }
-        // Only trigger cleanup if it wasn't manually initiated
-        if (!isCleanedUp.current) {
-          cleanup('server');
-        }
-        // Stop processing audio when WebSocket closes
-        stopProcessing();
-      };
-
-      ws.onerror = (error) => {
-        logger.error('WebSocket error:', error);
-        onException?.(error as unknown as Error);
-        // Ensure we're not in a cleanup state before triggering another cleanup
-        if (!isCleanedUp.current) {
-          cleanup('server');
-        }
-      };
+      setTranscript([]);
+      setPartialTranscript(null);
+      setReconnecting(false);
+      setReconnectAttempt(0);
+      client.reconnect(onConnectionSuccess);
     },
-    [
-      websocketUrl,
-      onOpen,
-      onClose,
-      onException,
-      setupAudioStream,
-      startProcessing,
-      stopProcessing,
-      cleanup,
-    ]
+    [client]
   );
 
   return {
     isConnected,
     isPlaying,
-    startRecording: startProcessing,
-    stopRecording: stopProcessing,
-    isRecording: isProcessing,
-    connect,
-    disconnect,
+    isUserSpeaking,
+    reconnecting,
+    reconnectAttempt,
+    rttMs,
+    conversationState,
+    transcript,
+    partialTranscript,
+    startRecording: client.startRecording,
+    stopRecording: client.stopRecording,
+    isRecording,
+    isMuted,
+    mute: client.mute,
+    unmute: client.unmute,
+    pressToTalk: client.pressToTalk,
+    releaseToTalk: client.releaseToTalk,
+    listInputDevices: client.listInputDevices,
+    switchInputDevice: client.switchInputDevice,
+    listOutputDevices: client.listOutputDevices,
+    setOutputDevice: client.setOutputDevice,
+    volume,
+    setVolume: client.setVolume,
+    getRecording: client.getRecording,
+    getRecordingTracks: client.getRecordingTracks,
+    clearRecording: client.clearRecording,
+    getStats: client.getStats,
+    on: client.onServerEvent,
+    sendEvent: client.sendEvent,
+    sendText: client.sendText,
+    connect: client.connect,
+    disconnect: client.disconnect,
     reconnect,
   };
 };
@@ -0,0 +1,760 @@
+/**
+ * GnaniWebVoiceHook — Type definitions
+ *
+ * Shared types for the WebSocket voice hook and server protocol. Types only:
+ * a `.ts` file (not `.d.ts`) so tsc emits dist/webVoice.d.ts for importers.
+ */
+
+import type { ConstructorOptions } from 'audiomotion-analyzer';
+
+/** Server-sent or client-sent WebSocket message payload (JSON). */
+export type ISocketEventData = WebVoiceServerMessage | WebVoiceClientMessage;
+
+// ── Client → server ─────────────────────────────────────────────────────────
+
+/** Opens the session and announces the outbound audio format. */
+export interface IWebVoiceStartMessage {
+  event: 'start';
+  transport?: WebVoiceTransport;
+  media_format?: {
+    encoding: string;
+    sample_rate: number;
+    channels: number;
+    /** How a payload splits into codec packets; absent for sample streams. */
+    framing?: WebVoiceMediaFraming;
+  };
+  /** The `conversationId` option. */
+  conversation_id?: string;
+  /** Package name and version of this client. */
+  client?: { name: string; version: string };
+  /** Anything from `startPayload`. */
+  [key: string]: unknown;
+}
+
+/** One mic chunk as base64 (JSON transport). */
+export interface IWebVoiceClientMediaMessage {
+  event: 'media';
+  media: {
+    payload: string;
+    /** Capture time (AudioContext seconds). */
+    timestamp?: number;
+  };
+}
+
+/** Keepalive; `timestamp` is Date.now() as a string. */
+export interface IWebVoicePingMessage {
+  event: 'ping';
+  metadata: { timestamp: string };
+}
+
+/** TTS playback started (true) or drained (false). */
+export interface IWebVoiceTtsPlayingMessage {
+  event: 'TTS_PLAYING';
+  media: { tts_playing: boolean };
+}
+
+/** The user interrupted TTS (local barge-in). */
+export interface IWebVoiceClientBargeMessage {
+  event: 'barge';
+}
+
+/** End of utterance: push-to-talk released, STT can finalise. */
+export interface IWebVoiceEndOfUtteranceMessage {
+  event: 'EOU';
+}
+
+/** Acknowledges the server's end of conversation. */
+export interface IWebVoiceEndOfConversationMessage {
+  event: 'EOC';
+}
+
+/** Typed user input (sendText). */
+export interface IWebVoiceTextMessage {
+  event: 'text';
+  text: string;
+}
+
+/** Every JSON message the client sends, discriminated by `event`. */
+export type WebVoiceClientMessage =
+  | IWebVoiceStartMessage
+  | IWebVoiceClientMediaMessage
+  | IWebVoicePingMessage
+  | IWebVoiceTtsPlayingMessage
+  | IWebVoiceClientBargeMessage
+  | IWebVoiceEndOfUtteranceMessage
+  | IWebVoiceEndOfConversationMessage
+  | IWebVoiceTextMessage;
+
+// ── Server → client ─────────────────────────────────────────────────────────
+
+/** One TTS chunk as base64. */
+export interface IWebVoiceServerMediaMessage {
+  event: 'media';
+  media: {
+    payload: string;
+  };
+  /** Rate of `media.payload` (Hz). Default: 44100. */
+  sample_rate?: number;
+  /** Encoding of `media.payload`; falls back to the `inputCodec` option. */
+  encoding?: WebVoiceInputEncoding;
+}
+
+/** The server interrupted TTS; playback is hard-stopped. */
+export interface IWebVoiceServerBargeMessage {
+  event: 'barge' | 'BARGE';
+}
+
+/** No more TTS: play what is buffered, then close. */
+export interface IWebVoiceStopMessage {
+  event: 'stop';
+}
+
+/** End of conversation; the client answers with `EOC`. */
+export interface IWebVoiceServerEndOfConversationMessage {
+  event: 'EOC';
+}
+
+/** Ping echoed by the server. */
+export interface IWebVoiceServerPingMessage {
+  event: 'ping';
+  metadata?: { timestamp?: string };
+}
+
+/**
+ * Any other event, in either direction: app-specific server notifications
+ * (transcripts, intents, tool calls) and sendEvent() payloads.
+ */
+export interface IWebVoiceCustomMessage {
+  event: string;
+  [key: string]: unknown;
+}
+
+/** Every JSON message the server sends, discriminated by `event`. */
+export type WebVoiceServerMessage =
+  | IWebVoiceServerMediaMessage
+  | IWebVoiceServerBargeMessage
+  | IWebVoiceStopMessage
+  | IWebVoiceServerEndOfConversationMessage
+  | IWebVoiceServerPingMessage;
+
+/** Inbound TTS encodings ('pcm16' is little-endian; 'wav' strips/reads the header). */
+export type WebVoiceInputEncoding =
+  'pcm16' | 'pcm16le' | 'pcm16be' | 'mulaw' | 'alaw' | 'wav';
+
+export type ISocketMessage = ISocketEventData | string | Blob;
+
+/** Logger interface; pass your own or use the default (console). */
+export interface IWebVoiceLogger {
+  info: (arg: unknown, ...args: unknown[]) => void;
+  error: (arg: unknown, ...args: unknown[]) => void;
+}
+
+/** Options for WebVoiceClient (framework-agnostic core). */
+export interface IWebVoiceClientOptions {
+  /** WebSocket URL to connect to (e.g. wss://api.example.com/voice). */
+  websocketUrl: string;
+  /** Optional; sent in `start` as `conversation_id` for correlation. */
+  conversationId?: string;
+  /**
+   * Extra fields merged into `start` (after the audio format, conversation id
+   * and client version, so they can override them). An object, or a builder
+   * called on every (re)connect, e.g. to add a fresh token or user metadata.
+   */
+  startPayload?:
+    | Record<string, unknown>
+    | ((
+        context: IWebVoiceStartContext
+      ) => Record<string, unknown> | Promise<Record<string, unknown>>);
+  /**
+   * Wait for the server to acknowledge `start` before streaming audio (mic
+   * audio is held meanwhile). `true` for defaults.
+   */
+  startAck?: boolean | IWebVoiceStartAckOptions;
+  /** Token provider for the URL or `start`, refreshed when the server reports expiry. */
+  auth?: IWebVoiceAuthOptions;
+  /**
+   * Legacy behaviour: reload the page when the server closes with reason
+   * `LINK_EXPIRED`. Default: false (`authExpired` fires instead).
+   */
+  reloadOnLinkExpired?: boolean;
+  /** Optional; URL for the Audio Worklet. Default: embedded (no hosting). Pass a URL if you serve the worklet yourself. */
+  workletPath?: string;
+  visualizerOptions?: {
+    /** DOM element id for the audiomotion-analyzer canvas. */
+    elementId?: string;
+    /** Override bar color (e.g. '#9E77ED'). */
+    color?: string;
+    /** Full audiomotion-analyzer constructor options. */
+    options?: ConstructorOptions;
+  };
+  /**
+   * Rate (Hz) mic audio is sent at, e.g. 8000 or 16000. The worklet resamples
+   * with an anti-aliasing filter; the rate is announced in `start`.
+   * Default: the AudioContext rate.
+   */
+  captureSampleRate?: number;
+  /** Length of each outbound mic chunk (ms). Default: 400. */
+  chunkDurationMs?: number;
+  /**
+   * Make chunks whole frames of this length (ms), e.g. 20 for codecs with
+   * 20ms frames; a partial chunk sent early is padded with silence.
+   */
+  frameDurationMs?: number;
+  /** TTS playout buffering; adapts to network jitter. */
+  jitterBuffer?: IWebVoiceJitterBufferOptions;
+  /** Default encoding of inbound TTS when a `media` message has no `encoding`. Default: 'pcm16'. */
+  inputCodec?: WebVoiceInputEncoding;
+  /** Outbound mic codec, or your own encoder. Announced in the `start` event. Default: 'mulaw'. */
+  outputCodec?: WebVoiceCodec | IWebVoiceAudioEncoder;
+  /**
+   * How media travels: 'json' (base64 `media` events) or 'binary'
+   * (ArrayBuffer frames with a 16-byte header; control events stay JSON).
+   * Inbound binary frames are played either way. Default: 'json'.
+   */
+  transport?: WebVoiceTransport;
+  /**
+   * Encode mic audio and decode TTS on the main thread, as before, instead of
+   * in the worklet (built-in codecs) and a Web Worker. Default: false; the
+   * Worker also falls back to the main thread if it can't be started.
+   */
+  mainThreadAudio?: boolean;
+  /** getUserMedia constraints and the processing chain mic audio passes through. */
+  capture?: IWebVoiceCaptureOptions;
+  /**
+   * Compressor on mic audio before it is captured and sent; `false` to bypass.
+   * Default: threshold -30 dB, knee 40, ratio 8, attack 0.002s, release 0.1s.
+   */
+  compressor?: false | IWebVoiceCompressorOptions;
+  /**
+   * Gain on mic audio after the compressor (1 = unchanged). Default: 1.2.
+   * Both are ignored when `capture.processing` is set.
+   */
+  inputGain?: number;
+  /**
+   * Remove TTS picked up by the mic (e.g. laptop speakers) in the worklet,
+   * using the TTS being played as the reference; on top of the browser's own
+   * echoCancellation. `true` for defaults.
+   */
+  echoSuppression?: boolean | IWebVoiceEchoSuppressionOptions;
+  /** Client-side voice activity detection in the worklet; `true` for defaults. */
+  vad?: boolean | IWebVoiceVadOptions;
+  /** Only stream mic audio while the user is speaking (plus pre-roll). Enables VAD. */
+  sendOnlyDuringSpeech?: boolean;
+  /**
+   * Stop TTS instantly when local VAD hears the user during playback, and send
+   * `barge` upstream. Enables VAD.
+   */
+  bargeIn?: boolean;
+  /**
+   * 'open': mic streams whenever recording. 'pushToTalk': mic streams only
+   * between pressToTalk() and releaseToTalk(). Default: 'open'.
+   */
+  micMode?: WebVoiceMicMode;
+  /** While muted, send nothing ('none') or silence ('silence'). Default: 'none'. */
+  mutedAudio?: 'none' | 'silence';
+  /** Microphone to capture (from listInputDevices). Default: the system default. */
+  inputDeviceId?: string;
+  /** Speaker / headset for TTS (from listOutputDevices). Default: the system default. */
+  outputDeviceId?: string;
+  /** Initial TTS playback volume (gain; 1 = unchanged). Default: 1. */
+  volume?: number;
+  /**
+   * Your own processing for TTS, inserted between the volume gain and the
+   * output. Called with the client's AudioContext whenever one is created;
+   * return the nodes to chain, in order.
+   */
+  playbackNodes?: (audioContext: AudioContext) => AudioNode[];
+  /**
+   * Opt-in recording of the conversation: mic and TTS on one timeline, read
+   * back with getRecording(). `true` for defaults.
+   */
+  recording?: boolean | IWebVoiceRecordingOptions;
+  /** Which server events carry transcripts, and how to read them. */
+  transcript?: IWebVoiceTranscriptOptions;
+  /** Opt-in automatic reconnection when the socket drops mid-session. */
+  reconnectPolicy?: IWebVoiceReconnectPolicy;
+  /** Keepalive pings, round-trip time and dead-socket detection. */
+  heartbeat?: IWebVoiceHeartbeatOptions;
+  /** How often `stats` fires while connected (only with a listener). Default: 1000. */
+  statsIntervalMs?: number;
+  /** Optional logger; defaults to console. Pass { info, error } for your app logger. */
+  logger?: IWebVoiceLogger;
+}
+
+/** Who said a transcript line. */
+export type WebVoiceTranscriptRole = 'user' | 'agent';
+
+/** One transcript update as read from a server event. */
+export interface IWebVoiceTranscriptUpdate {
+  role: WebVoiceTranscriptRole;
+  text: string;
+  /** false for a partial hypothesis that may still change. */
+  isFinal: boolean;
+}
+
+/** A transcript line, as exposed by the client and hook. */
+export interface IWebVoiceTranscriptEntry extends IWebVoiceTranscriptUpdate {
+  /** Per-session counter. */
+  id: number;
+  /** Date.now() when received. */
+  timestamp: number;
+}
+
+/** Maps a server's transcript dialect onto transcript updates. */
+export interface IWebVoiceTranscriptOptions {
+  /** Server events carrying transcripts. Default: ['transcript']. */
+  events?: string[];
+  /**
+   * Read one update from a transcript event; return null to ignore it. By
+   * default reads `text` (or `transcript`), `role` (or `speaker`; 'agent',
+   * 'assistant' and 'bot' are the agent) and `is_final` (or `final`; default true).
+   */
+  parse?: (message: IWebVoiceCustomMessage) => IWebVoiceTranscriptUpdate | null;
+}
+
+/** Where the conversation is, derived from connection, VAD, playback and server events. */
+export type WebVoiceConversationState =
+  | 'idle'
+  | 'connecting'
+  | 'listening'
+  | 'userSpeaking'
+  | 'agentThinking'
+  | 'agentSpeaking'
+  | 'ended';
+
+/** Conversation recording limits and streaming mode. */
+export interface IWebVoiceRecordingOptions {
+  /** Buffered mode keeps only the most recent audio, up to this long. Default: 300000 (5 min). */
+  maxDurationMs?: number;
+  /**
+   * Streaming mode: emit `recordingChunk` every `chunkMs` (stereo WAV) and free
+   * the audio, instead of buffering the whole call.
+   */
+  chunkMs?: number;
+}
+
+/** One slice of the recording in streaming mode. */
+export interface IWebVoiceRecordingChunk {
+  /** 0-based chunk counter. */
+  index: number;
+  /** Offset of the chunk from the start of the recording (ms). */
+  startMs: number;
+  durationMs: number;
+  /** Stereo 16-bit WAV (left user, right agent). */
+  blob: Blob;
+}
+
+/** Recording split into one mono WAV per side. */
+export interface IWebVoiceRecordingTracks {
+  user: Blob;
+  agent: Blob;
+}
+
+/** Why a token is requested: first connection, automatic reconnection, or after expiry. */
+export type WebVoiceTokenReason = 'connect' | 'reconnect' | 'expired';
+
+/** Authentication with short-lived tokens. */
+export interface IWebVoiceAuthOptions {
+  /** Called before every connection attempt; cache inside if tokens are reusable. */
+  getToken: (context: {
+    reason: WebVoiceTokenReason;
+  }) => string | Promise<string>;
+  /** Send the token as a URL query parameter ('query') or a `start` field ('start'). Default: 'query'. */
+  placement?: 'query' | 'start';
+  /** Query parameter / `start` field name. Default: 'token'. */
+  param?: string;
+  /** Close reasons meaning the token expired. Default: ['LINK_EXPIRED', 'TOKEN_EXPIRED']. */
+  expiredReasons?: string[];
+  /** Close codes meaning the token expired (e.g. 4001). Default: none. */
+  expiredCloseCodes?: number[];
+  /**
+   * On expiry, fetch a new token and reconnect (keeping mic and playback,
+   * like reconnectPolicy). When false, the session closes after `authExpired`.
+   * Default: true.
+   */
+  refreshOnExpiry?: boolean;
+}
+
+/** Passed to a `startPayload` builder. */
+export interface IWebVoiceStartContext {
+  conversationId?: string;
+  /** 0 for the first connection, else the automatic reconnection attempt. */
+  reconnectAttempt: number;
+}
+
+/** Server acknowledgement of `start`. */
+export interface IWebVoiceStartAckOptions {
+  /** Event the server sends once the session is ready. Default: 'started'. */
+  event?: string;
+  /** Give up (report an error and close, as `'server'`) after this long. Default: 5000. */
+  timeoutMs?: number;
+}
+
+/**
+ * Adaptive TTS playout. Playback starts once the target delay is buffered (or
+ * the first audio has waited that long); the target follows measured arrival
+ * jitter between minDelayMs and maxDelayMs.
+ */
+export interface IWebVoiceJitterBufferOptions {
+  /** Lower bound for the adaptive target. Default: 60. */
+  minDelayMs?: number;
+  /** Starting target delay. Default: 200. */
+  targetDelayMs?: number;
+  /**
+   * Upper bound for the target; when set, audio queued beyond it is dropped
+   * (with a crossfade) to catch up. Leave unset for servers that send TTS
+   * faster than real time. Default: none (target capped at 1000).
+   */
+  maxDelayMs?: number;
+  /** Size of each scheduled playback block. Default: 40. */
+  blockMs?: number;
+  /** Fade applied where silence is inserted or audio dropped. Default: 10. */
+  crossfadeMs?: number;
+}
+
+/** Keepalive `ping` events and the server's reply to them. */
+export interface IWebVoiceHeartbeatOptions {
+  /** Time between pings. Default: 10000. */
+  intervalMs?: number;
+  /**
+   * Treat the socket as dead when a ping gets no pong within this long.
+   * Default: 0 (don't check; for servers that never answer pings).
+   */
+  timeoutMs?: number;
+  /**
+   * Server event answering a ping, echoing its `metadata.timestamp`; used
+   * for `rttMs`. An echoed `ping` (IWebVoiceServerPingMessage) always
+   * counts as well. Default: 'pong'.
+   */
+  pongEvent?: string;
+  /**
+   * On a missed pong: drop the socket and reconnect, or close the session.
+   * Default: 'reconnect' with a reconnectPolicy, else 'close'.
+   */
+  onTimeout?: 'reconnect' | 'close';
+}
+
+/**
+ * Session metrics from getStats() and `stats`; plain numbers, safe to
+ * JSON.stringify. Counters restart on every connect and reconnect.
+ */
+export interface IWebVoiceStats {
+  /** Date.now() when collection started. */
+  since: number;
+  /** `start` sent → first TTS chunk received (ms); null until then. */
+  startToFirstAudioMs: number | null;
+  /**
+   * End of the user's speech (VAD, push-to-talk release, or a final user
+   * transcript without either) → first agent audio heard, for the latest turn (ms).
+   */
+  responseLatencyMs: number | null;
+  /** Mean of responseLatencyMs over `responses` turns. */
+  averageResponseLatencyMs: number | null;
+  responses: number;
+  /**
+   * TTS blocks that started after the previous one had finished within an
+   * agent turn: decode or scheduling fell behind, or the stream stalled and
+   * playback drained. Pauses after a `stop`, `EOC`, barge or user turn don't
+   * count.
+   */
+  underruns: number;
+  /** Total silence inserted by underruns (ms). */
+  underrunMs: number;
+  /** Mic chunks sent, and their encoded size. */
+  chunksSent: number;
+  bytesSent: number;
+  /** TTS chunks received, and their encoded size. */
+  chunksReceived: number;
+  bytesReceived: number;
+  /** Mic chunks not sent (socket closed, offline buffer full, encoder error). */
+  droppedSent: number;
+  /** TTS chunks not played (malformed, or late audio after a barge-in). */
+  droppedReceived: number;
+  /** TTS queued or scheduled but not yet heard (ms). */
+  bufferedPlaybackMs: number;
+}
+
+/** Media transport over the WebSocket. */
+export type WebVoiceTransport = 'json' | 'binary';
+
+/**
+ * Packet framing within a media payload. 'length-prefixed': each packet
+ * follows its 2-byte big-endian length (several Opus packets per payload).
+ */
+export type WebVoiceMediaFraming = 'length-prefixed';
+
+/** Header of a binary media frame (see webVoiceFrames.ts for the layout). */
+export interface IWebVoiceMediaFrameHeader {
+  /** Per-session frame counter, starting at 0. */
+  sequence: number;
+  /** Sample rate of the payload (Hz). */
+  sampleRate: number;
+  /** Capture time in ms (AudioContext clock for outbound frames). */
+  timestamp: number;
+  /** Codec name; custom codecs are sent as id 255. */
+  codec: string;
+}
+
+/** Microphone mode. */
+export type WebVoiceMicMode = 'open' | 'pushToTalk';
+
+/** Worklet capture state: stream, stream zeros (mute), or stream nothing. */
+export type WebVoiceCaptureState = 'open' | 'silence' | 'closed';
+
+/** Built-in outbound codecs. */
+export type WebVoiceCodec = 'mulaw' | 'alaw' | 'pcm16' | 'opus';
+
+/** Custom outbound encoder; its bytes are base64-encoded into `media.payload`. */
+export interface IWebVoiceAudioEncoder {
+  /** Codec name announced in the `start` event (e.g. 'opus'). */
+  readonly codec: string;
+  /** Output sample rate (Hz) announced in `start`; defaults to the capture rate. */
+  readonly sampleRate?: number;
+  /** Packet framing announced in `start`, for payloads of several packets. */
+  readonly framing?: WebVoiceMediaFraming;
+  /** Encode one mono chunk captured at `sampleRate`. */
+  encode(
+    samples: Float32Array,
+    sampleRate: number
+  ): Uint8Array | Promise<Uint8Array>;
+  /**
+   * Encode whatever is still buffered, when capture stops (stopRecording,
+   * push-to-talk release); sent as a last `media` chunk, skipped if empty.
+   */
+  flush?(): Uint8Array | Promise<Uint8Array>;
+  /** Release encoder resources when the session ends. */
+  close?(): void;
+}
+
+/** Energy / zero-crossing VAD settings (run per frame in the audio worklet). */
+export interface IWebVoiceVadOptions {
+  /** Minimum frame energy for speech (dBFS). Default: -45. */
+  energyThresholdDb?: number;
+  /** How far above the adaptive noise floor speech must be (dB). Default: 10. */
+  noiseMarginDb?: number;
+  /** Frames with a higher zero-crossing rate (0–1) are treated as noise. Default: 0.35. */
+  maxZeroCrossingRate?: number;
+  /** Speech must last this long before speech start fires (ms). Default: 60. */
+  minSpeechMs?: number;
+  /** Silence needed before speech end fires (ms). Default: 400. */
+  hangoverMs?: number;
+  /** Audio kept from before speech start and sent with it when `sendOnlyDuringSpeech` (ms). Default: 300. */
+  preRollMs?: number;
+  /** Analysis frame length (ms). Default: 20. */
+  frameMs?: number;
+}
+
+/** DynamicsCompressorNode settings for mic audio; unset fields keep the defaults. */
+export interface IWebVoiceCompressorOptions {
+  /** Level above which audio is compressed (dB). Default: -30. */
+  threshold?: number;
+  /** Range above the threshold over which the curve softens (dB). Default: 40. */
+  knee?: number;
+  /** Input dB change per 1 dB of output above the threshold. Default: 8. */
+  ratio?: number;
+  /** Time to reduce gain by 10 dB (seconds). Default: 0.002. */
+  attack?: number;
+  /** Time to increase gain by 10 dB (seconds). Default: 0.1. */
+  release?: number;
+}
+
+/** Mic capture settings (see `capture`). */
+export interface IWebVoiceCaptureOptions {
+  /**
+   * Audio constraints for getUserMedia, merged over the defaults (sampleRate
+   * 44100, channelCount 1, echoCancellation, noiseSuppression and
+   * autoGainControl ideally on). The device comes from `inputDeviceId`.
+   */
+  constraints?: MediaTrackConstraints;
+  /**
+   * Stages mic audio passes through, in order, before it is captured and
+   * encoded. Replaces the default chain (`compressor`, then `inputGain`);
+   * `[]` sends the mic as the browser delivers it.
+   */
+  processing?: WebVoiceProcessingStage[];
+}
+
+export type WebVoiceProcessingStage =
+  | IWebVoiceHighPassStage
+  | IWebVoiceNoiseGateStage
+  | IWebVoiceGainStage
+  | IWebVoiceCompressorStage
+  | IWebVoiceCustomNodeStage
+  | IWebVoiceWorkletStage;
+
+/** Removes rumble and handling noise below `frequency`. */
+export interface IWebVoiceHighPassStage {
+  type: 'highPass';
+  /** Cutoff (Hz). Default: 100. */
+  frequency?: number;
+  /** Filter Q. Default: 0.7071 (no resonance). */
+  q?: number;
+}
+
+/** Mutes audio that stays below `thresholdDb` (runs in the embedded worklet module). */
+export interface IWebVoiceNoiseGateStage {
+  type: 'noiseGate';
+  /** Level the gate opens at (dBFS). Default: -50. */
+  thresholdDb?: number;
+  /** Time to open fully (ms). Default: 5. */
+  attackMs?: number;
+  /** Time kept open after the level drops below the threshold (ms). Default: 150. */
+  holdMs?: number;
+  /** Time to close fully after the hold (ms). Default: 100. */
+  releaseMs?: number;
+}
+
+export interface IWebVoiceGainStage {
+  type: 'gain';
+  /** Linear gain (1 = unchanged). */
+  gain: number;
+}
+
+/** DynamicsCompressorNode; unset fields take the `compressor` defaults. */
+export interface IWebVoiceCompressorStage extends IWebVoiceCompressorOptions {
+  type: 'compressor';
+}
+
+/**
+ * Your own nodes, chained in order. Called with the client's AudioContext
+ * whenever the chain is built (new mic stream or device switch).
+ */
+export interface IWebVoiceCustomNodeStage {
+  type: 'custom';
+  create: (audioContext: AudioContext) => AudioNode | AudioNode[];
+}
+
+/** Your own AudioWorkletProcessor; the module is loaded once per AudioContext. */
+export interface IWebVoiceWorkletStage {
+  type: 'worklet';
+  /** URL of the module that registers the processor. */
+  moduleUrl: string;
+  /** Name the processor is registered under. */
+  processorName: string;
+  /** Passed to the AudioWorkletNode (e.g. processorOptions). */
+  options?: AudioWorkletNodeOptions;
+}
+
+/** Echo suppression in the capture worklet (see `echoSuppression`). */
+export interface IWebVoiceEchoSuppressionOptions {
+  /**
+   * 'gate': attenuate the mic while TTS is audible, unless the user talks
+   * over it. 'nlms': first subtract an adaptive estimate of the echo, so the
+   * user is heard cleanly during barge-in; costs noticeably more CPU.
+   * Default: 'gate'.
+   */
+  mode?: 'gate' | 'nlms';
+  /** Speaker-to-mic delay (ms). Default: the AudioContext's reported output latency. */
+  delayMs?: number;
+  /** How long echo rings on after the TTS (ms). Default: 150. */
+  tailMs?: number;
+  /** Echo path covered by the 'nlms' filter, beyond delayMs (ms). Default: 20. */
+  filterMs?: number;
+  /** Attenuation of echo-only audio (dB). Default: 30. */
+  suppressionDb?: number;
+  /** How far the mic must exceed the expected echo to count as the user talking (dB). Default: 6. */
+  doubleTalkDb?: number;
+}
+
+/**
+ * Automatic reconnection with exponential backoff. The mic stream and
+ * AudioContext stay alive; the socket is re-opened and `start` re-sent.
+ */
+export interface IWebVoiceReconnectPolicy {
+  /** Attempts before giving up and closing. Default: 5. */
+  maxAttempts?: number;
+  /** Delay before the first attempt (ms); doubles each attempt. Default: 500. */
+  baseDelayMs?: number;
+  /** Upper bound for the delay (ms). Default: 10000. */
+  maxDelayMs?: number;
+  /** Random ± fraction applied to each delay (0–1). Default: 0.3. */
+  jitter?: number;
+  /** Close codes that trigger a retry. Default: [1001, 1006, 1011, 1012, 1013]. */
+  retryableCloseCodes?: number[];
+  /** Mic audio buffered while offline and flushed on resume (ms; oldest dropped first). Default: 5000. */
+  offlineBufferMs?: number;
+}
+
+/** Who closed the connection (or initiated a barge). */
+export type WebVoiceCloseSource = 'server' | 'client';
+
+/** Events emitted by WebVoiceClient; subscribe with `client.on(name, listener)`. */
+export interface IWebVoiceClientEvents {
+  /** WebSocket opened. */
+  open: () => void;
+  /** Connection closed and all audio resources released. */
+  close: (source: WebVoiceCloseSource) => void;
+  /** TTS playback started (true) or drained (false). */
+  playing: (isPlaying: boolean) => void;
+  /** WebSocket, microphone or worklet error. */
+  error: (error: Error) => void;
+  /** Socket dropped; attempt `attempt` will start after `delayMs`. */
+  reconnecting: (attempt: number, delayMs: number) => void;
+  /** Mic audio started (true) or stopped (false) streaming. */
+  recording: (isRecording: boolean) => void;
+  /** mute() / unmute() took effect. */
+  muted: (isMuted: boolean) => void;
+  /** Local VAD detected the user starting to speak. */
+  speechStart: () => void;
+  /** Local VAD detected the end of the user's speech (after hangover). */
+  speechEnd: () => void;
+  /** TTS was hard-stopped by a local (`'client'`) or server (`'server'`) barge. */
+  bargeIn: (source: WebVoiceCloseSource) => void;
+  /** Session resumed after `attempt` attempts (`start` re-sent, offline audio flushed). */
+  reconnected: (attempt: number) => void;
+  /** Audio inputs changed or the mic was switched; `activeDeviceId` is the mic now captured. */
+  deviceChange: (
+    devices: MediaDeviceInfo[],
+    activeDeviceId: string | undefined
+  ) => void;
+  /** setVolume() changed the TTS volume. */
+  volume: (volume: number) => void;
+  /** A final transcript line was added; `transcript` is the whole list so far. */
+  transcript: (
+    entry: IWebVoiceTranscriptEntry,
+    transcript: IWebVoiceTranscriptEntry[]
+  ) => void;
+  /** The partial hypothesis changed (null once finalised). */
+  partialTranscript: (entry: IWebVoiceTranscriptEntry | null) => void;
+  /** conversationState changed. */
+  conversationState: (state: WebVoiceConversationState) => void;
+  /** The server closed with an expiry reason/code (see `auth`); `reason` is the close reason. */
+  authExpired: (reason: string) => void;
+  /** Periodic session metrics (see `statsIntervalMs`). */
+  stats: (stats: IWebVoiceStats) => void;
+  /** A pong arrived; round-trip time of its ping in ms. */
+  rtt: (rttMs: number) => void;
+  /** `start` was sent (and acknowledged, with `startAck`); audio is streaming. */
+  started: (ack: IWebVoiceCustomMessage | null) => void;
+  /** The server sent an event this client doesn't handle itself. */
+  message: (message: IWebVoiceCustomMessage) => void;
+  /** Streaming recording (`recording.chunkMs`) produced a chunk. */
+  recordingChunk: (chunk: IWebVoiceRecordingChunk) => void;
+}
+
+/** Options for useWebSocketAudio / useWebVoice hook. */
+export interface IUseWebVoiceOptions extends IWebVoiceClientOptions {
+  /** Lifecycle and error callbacks. */
+  events?: {
+    onOpen?: () => void;
+    onClose?: (source: WebVoiceCloseSource) => void;
+    onException?: (error: Error) => void;
+    onReconnecting?: (attempt: number, delayMs: number) => void;
+    onReconnected?: (attempt: number) => void;
+    onSpeechStart?: () => void;
+    onSpeechEnd?: () => void;
+    onBargeIn?: (source: WebVoiceCloseSource) => void;
+    onDeviceChange?: (
+      devices: MediaDeviceInfo[],
+      activeDeviceId: string | undefined
+    ) => void;
+    onRecordingChunk?: (chunk: IWebVoiceRecordingChunk) => void;
+    onStarted?: (ack: IWebVoiceCustomMessage | null) => void;
+    onAuthExpired?: (reason: string) => void;
+    onStats?: (stats: IWebVoiceStats) => void;
+    onTranscript?: (entry: IWebVoiceTranscriptEntry) => void;
+    onConversationStateChange?: (state: WebVoiceConversationState) => void;
+    /** Server events this hook doesn't handle itself (transcripts, intents, tool calls…). */
+    onMessage?: (message: IWebVoiceCustomMessage) => void;
+  };
+}
@@ -0,0 +1,2336 @@
+/**
+ * WebVoiceClient — Framework-agnostic core for real-time WebSocket voice (STT/TTS)
+ *
+ * Owns the WebSocket, AudioContext, Audio Worklet and TTS playback queue.
+ * useWebSocketAudio is a thin React binding over this class; Vue, vanilla JS
+ * and test harnesses can use it directly.
+ *
+ * @see README.md for usage examples.
+ */
+
+import AudioMotionAnalyzer from 'audiomotion-analyzer';
+
+import { audioProcessorSource } from './audioProcessorSource.generated';
+import { decodeWorkerSource } from './decodeWorkerSource.generated';
+import type {
+  IWebVoiceAudioEncoder,
+  IWebVoiceAuthOptions,
+  IWebVoiceClientEvents,
+  IWebVoiceClientOptions,
+  IWebVoiceCustomMessage,
+  IWebVoiceEchoSuppressionOptions,
+  IWebVoiceLogger,
+  IWebVoiceReconnectPolicy,
+  IWebVoiceRecordingTracks,
+  IWebVoiceStartAckOptions,
+  IWebVoiceStartMessage,
+  IWebVoiceStats,
+  IWebVoiceTranscriptEntry,
+  IWebVoiceVadOptions,
+  WebVoiceCaptureState,
+  WebVoiceClientMessage,
+  WebVoiceCloseSource,
+  WebVoiceCodec,
+  WebVoiceConversationState,
+  WebVoiceProcessingStage,
+  WebVoiceServerMessage,
+  WebVoiceTokenReason,
+} from './webVoice';
+import {
+  decodeAudioPayload,
+  StreamingResampler,
+  type IWavFormat,
+} from './webVoiceDsp';
+import { WebVoiceEmitter } from './webVoiceEmitter';
+import { decodeMediaFrame, encodeMediaFrame } from './webVoiceFrames';
+import { WebVoiceJitterBuffer } from './webVoiceJitterBuffer';
+import { createProcessingChain } from './webVoiceProcessing';
+import {
+  isServerMessage,
+  parseServerMessage,
+  parseTranscriptMessage,
+  WebVoiceProtocolError,
+} from './webVoiceProtocol';
+import { WebVoiceRecorder } from './webVoiceRecorder';
+import { WebVoiceStats } from './webVoiceStats';
+import {
+  applyCustomColor,
+  base64ByteLength,
+  base64ToUint8Array,
+  createAudioEncoder,
+  getVisualizerOptions,
+  listInputDevices,
+  listOutputDevices,
+  resetAudioInput,
+  uint8ArrayToBase64,
+} from './webVoiceUtils';
+
+/** Default sample rate for capture and playback (Hz). */
+const SAMPLE_RATE = 44100;
+export const CHANNELS = 1;
+export const BITS_PER_SAMPLE = 16;
+
+/**
+ * TTS blocks committed to the AudioContext ahead of its clock; the rest stays
+ * in the jitter buffer, where it can still adapt.
+ */
+const LOOKAHEAD_BLOCKS = 3;
+/** Sent in `start` as `client`; keep in step with package.json. */
+const CLIENT_INFO = { name: '@gnani.ai/web-voice-hook', version: '1.0.2' };
+/** Close reasons treated as an expired token / link when `auth.expiredReasons` is not set. */
+const DEFAULT_EXPIRED_REASONS = ['LINK_EXPIRED', 'TOKEN_EXPIRED'];
+/** Default `statsIntervalMs`. */
+const STATS_INTERVAL_MS = 1_000;
+/** Defaults for IWebVoiceHeartbeatOptions (timeoutMs 0: pongs aren't required). */
+const DEFAULT_HEARTBEAT = {
+  intervalMs: 10_000,
+  timeoutMs: 0,
+  pongEvent: 'pong',
+};
+/** Defaults for IWebVoiceStartAckOptions. */
+const DEFAULT_START_ACK = { event: 'started', timeoutMs: 5_000 };
+
+/** Server events read as transcripts when `transcript.events` is not set. */
+const DEFAULT_TRANSCRIPT_EVENTS = ['transcript'];
+
+/** Defaults for IWebVoiceReconnectPolicy. */
+const DEFAULT_RECONNECT_POLICY: Required<IWebVoiceReconnectPolicy> = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitter: 0.3,
+  retryableCloseCodes: [1001, 1006, 1011, 1012, 1013],
+  offlineBufferMs: 5_000,
+};
+
+/** Defaults for IWebVoiceVadOptions. */
+const DEFAULT_VAD_OPTIONS: Required<IWebVoiceVadOptions> = {
+  energyThresholdDb: -45,
+  noiseMarginDb: 10,
+  maxZeroCrossingRate: 0.35,
+  minSpeechMs: 60,
+  hangoverMs: 400,
+  preRollMs: 300,
+  frameMs: 20,
+};
+
+/** getUserMedia audio constraints; `capture.constraints` are merged over them. */
+const DEFAULT_CAPTURE_CONSTRAINTS: MediaTrackConstraints = {
+  sampleRate: SAMPLE_RATE,
+  channelCount: CHANNELS,
+  echoCancellation: { ideal: true },
+  noiseSuppression: { ideal: true },
+  autoGainControl: { ideal: true },
+};
+/** Default `inputGain`. */
+const DEFAULT_INPUT_GAIN = 1.2;
+
+/** Defaults for IWebVoiceEchoSuppressionOptions (delayMs comes from the AudioContext). */
+const DEFAULT_ECHO_SUPPRESSION = {
+  mode: 'gate',
+  tailMs: 150,
+  filterMs: 20,
+  suppressionDb: 30,
+  doubleTalkDb: 6,
+} as const;
+
+/** Time from scheduling audio to it leaving the speaker, as the browser reports it (ms). */
+const getOutputLatencyMs = (audioContext: AudioContext) =>
+  ((audioContext.baseLatency || 0) + (audioContext.outputLatency || 0)) * 1000;
+
+/** Exponential backoff delay (ms) for a 1-based attempt, with ± jitter. */
+const getBackoffDelay = (
+  attempt: number,
+  { baseDelayMs, maxDelayMs, jitter }: Required<IWebVoiceReconnectPolicy>
+) => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const spread = delay * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + spread));
+};
+
+/** `url` with `name=value` set in its query string. */
+const withQueryParam = (url: string, name: string, value: string) => {
+  const parsed = new URL(url);
+  parsed.searchParams.set(name, value);
+  return parsed.toString();
+};
+
+/** Mic chunk captured while the socket was down. */
+interface IOfflineChunk {
+  data: Float32Array;
+  /** Already encoded by the worklet. */
+  encoded?: Uint8Array;
+  /** Its base64, also from the worklet (JSON transport). */
+  payload?: string;
+  timestamp: number;
+  durationMs: number;
+}
+
+/** How long stopRecording() waits for the worklet's last partial chunk. */
+const CAPTURE_FLUSH_TIMEOUT_MS = 500;
+
+/** Outbound codecs the worklet can encode itself. */
+const WORKLET_CODECS: WebVoiceCodec[] = ['mulaw', 'alaw', 'pcm16'];
+
+/** AudioContext.setSinkId (Chrome 110+) is not in lib.dom yet. */
+type SinkableAudioContext = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>;
+};
+
+/** Default logger when none is provided (console; safe for package use). */
+export const defaultLogger: IWebVoiceLogger = {
+  info: (arg: unknown, ...args: unknown[]) =>
+    // eslint-disable-next-line no-console
+    console.log('[GnaniWebVoice]', arg, ...args),
+  error: (arg: unknown, ...args: unknown[]) =>
+    // eslint-disable-next-line no-console
+    console.error('[GnaniWebVoice]', arg, ...args),
+};
+
+/**
+ * Bidirectional WebSocket voice client: mic → server, TTS ← server.
+ *
+ * @example
+ * const client = new WebVoiceClient({ websocketUrl: 'wss://your-api/voice' });
+ * client.on('close', (source) => console.log('Closed', source));
+ * client.connect();
+ */
+export class WebVoiceClient extends WebVoiceEmitter<IWebVoiceClientEvents> {
+  private options: IWebVoiceClientOptions;
+
+  private websocket: WebSocket | null = null;
+  private audioContext: AudioContext | null = null;
+  private workletContext: AudioContext | null = null;
+  private scheduledSources = new Set<AudioBufferSourceNode>();
+  private audioWorkletNode: AudioWorkletNode | null = null;
+  private streamSourceNode: MediaStreamAudioSourceNode | null = null;
+  /** Processing stages between the mic source and the worklet. */
+  private inputChain: AudioNode[] = [];
+  /** End of the mic chain (source → processing stages) the worklet listens to. */
+  private inputNode: AudioNode | null = null;
+  /** Custom worklet stage modules loaded into stageModuleContext, by URL. */
+  private stageModules = new Map<string, Promise<void>>();
+  private stageModuleContext: AudioContext | null = null;
+  /** Playback output feeding the worklet's echo reference input. */
+  private echoReference: AudioNode | null = null;
+  private stream?: MediaStream;
+  private inputDeviceId?: string;
+  private inputSwitch: Promise<void> = Promise.resolve();
+  private playbackBus: GainNode | null = null;
+  private playbackOutput: AudioNode | null = null;
+  private outputElement: HTMLAudioElement | null = null;
+  private outputDeviceId?: string;
+  private volumeLevel = 1;
+  private recorder: WebVoiceRecorder | null = null;
+  private stats = new WebVoiceStats();
+  private transcriptEntries: IWebVoiceTranscriptEntry[] = [];
+  private partial: IWebVoiceTranscriptEntry | null = null;
+  private transcriptId = 0;
+  private state: WebVoiceConversationState = 'idle';
+  private sessionStarted = false;
+  private authToken: string | null = null;
+  private authorizing = false;
+  private connectAttempt = 0;
+  private pendingStartAck: {
+    event: string;
+    settle: (ack: IWebVoiceCustomMessage | null) => void;
+  } | null = null;
+  private serverEventHandlers = new Map<
+    string,
+    Set<(message: IWebVoiceCustomMessage) => void>
+  >();
+  private analyzer: AudioMotionAnalyzer | null = null;
+  private encoder: IWebVoiceAudioEncoder | null = null;
+  private decoder: { worker: Worker; url: string } | null = null;
+  private decoderFailed = false;
+  /** Bumped when playback stops, so decodes already in flight are dropped. */
+  private decodeGeneration = 0;
+  private playbackResampler: StreamingResampler | null = null;
+  /** Format of the WAV stream being played; its later chunks have no header. */
+  private wavFormat: IWavFormat | null = null;
+  private sendQueue: Promise<void> = Promise.resolve();
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastPingAt = 0;
+  private rtt: number | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private playbackStartTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private connected = false;
+  private playing = false;
+  private userSpeaking = false;
+  private muted = false;
+  private talking = false;
+  private recording = false;
+  private pendingEndOfUtterance = false;
+  /** Next `sequence` expected from the capture worklet. */
+  private captureSequence = 0;
+  private isPlayingAudio = false;
+  private isAudioNodesConnected = false;
+  private isCleanedUp = false;
+  private backendSampleRate = SAMPLE_RATE;
+  private captureSampleRate = SAMPLE_RATE;
+  private isStopReceived = false;
+  /** TTS_PLAYING state the current socket's server last heard. */
+  private lastSentTTSEvent = false;
+  /** A local barge that couldn't be sent (socket not open). */
+  private pendingBarge = false;
+  private chunkReceivedAt = 0;
+  private nextPlayTime = 0;
+  /**
+   * When playback ran dry mid-turn (AudioContext time); 0 once the turn ended
+   * (stop, EOC, barge). Resuming from it is an underrun.
+   */
+  private playbackDrainedAt = 0;
+  /** `EOC` arrived with TTS still queued or playing: its drain ends the turn. */
+  private agentTurnEnded = false;
+  private suppressPlayback = false;
+  private jitterBuffer: WebVoiceJitterBuffer;
+  private reconnectAttempt = 0;
+  private mediaSequence = 0;
+  /** Capture timestamp of the last mic chunk sent; the encoder tail's too. */
+  private lastMediaTimestamp = 0;
+  private offlineAudio: IOfflineChunk[] = [];
+
+  constructor(options: IWebVoiceClientOptions) {
+    super();
+    this.options = options;
+    this.inputDeviceId = options.inputDeviceId;
+    this.outputDeviceId = options.outputDeviceId;
+    this.volumeLevel = Math.max(0, options.volume ?? 1);
+    this.jitterBuffer = this.createJitterBuffer();
+  }
+
+  /** Replace options (e.g. when the URL becomes available). Takes effect on the next connect. */
+  setOptions(options: IWebVoiceClientOptions): void {
+    this.options = options;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** True while mic audio is being streamed (attached, unmuted, and pressed in push-to-talk). */
+  get isRecording(): boolean {
+    return !!this.audioWorkletNode && this.captureState === 'open';
+  }
+
+  get isMuted(): boolean {
+    return this.muted;
+  }
+
+  /** True while push-to-talk is held. */
+  get isTalking(): boolean {
+    return this.talking;
+  }
+
+  /** True while local VAD hears the user speaking. */
+  get isUserSpeaking(): boolean {
+    return this.userSpeaking;
+  }
+
+  /** True while waiting for or opening an automatic reconnection. */
+  get isReconnecting(): boolean {
+    return this.reconnectAttempt > 0;
+  }
+
+  /** Current automatic reconnection attempt (0 when connected). */
+  get currentReconnectAttempt(): number {
+    return this.reconnectAttempt;
+  }
+
+  /** Final transcript lines so far (user and agent). */
+  get transcript(): IWebVoiceTranscriptEntry[] {
+    return [...this.transcriptEntries];
+  }
+
+  /** Current partial hypothesis, or null. */
+  get partialTranscript(): IWebVoiceTranscriptEntry | null {
+    return this.partial;
+  }
+
+  get conversationState(): WebVoiceConversationState {
+    return this.state;
+  }
+
+  /** Round-trip time (ms) of the last answered ping, or null before the first pong. */
+  get rttMs(): number | null {
+    return this.rtt;
+  }
+
+  /** deviceId of the mic currently captured, if known. */
+  get currentInputDeviceId(): string | undefined {
+    return (
+      this.stream?.getAudioTracks()[0]?.getSettings().deviceId ??
+      this.inputDeviceId
+    );
+  }
+
+  /** sinkId TTS is routed to ('' or undefined for the system default). */
+  get currentOutputDeviceId(): string | undefined {
+    return this.outputDeviceId;
+  }
+
+  /** TTS playback volume (gain; 1 = unchanged). */
+  get volume(): number {
+    return this.volumeLevel;
+  }
+
+  private get logger(): IWebVoiceLogger {
+    return this.options.logger ?? defaultLogger;
+  }
+
+  // VAD runs when configured or needed by sendOnlyDuringSpeech / bargeIn
+  private get vadOptions(): Required<IWebVoiceVadOptions> | null {
+    const { vad, sendOnlyDuringSpeech, bargeIn } = this.options;
+    if (!vad && !sendOnlyDuringSpeech && !bargeIn) return null;
+    return {
+      ...DEFAULT_VAD_OPTIONS,
+      ...(typeof vad === 'object' ? vad : {}),
+    };
+  }
+
+  // Mic processing: `capture.processing`, else the compressor and inputGain
+  private get processingStages(): WebVoiceProcessingStage[] {
+    const {
+      capture,
+      compressor,
+      inputGain = DEFAULT_INPUT_GAIN,
+    } = this.options;
+    if (capture?.processing) return capture.processing;
+    return [
+      ...(compressor === false
+        ? []
+        : [{ ...compressor, type: 'compressor' } as const]),
+      { type: 'gain', gain: inputGain },
+    ];
+  }
+
+  private get echoSuppressionOptions() {
+    const { echoSuppression } = this.options;
+    if (!echoSuppression) return null;
+    return {
+      ...DEFAULT_ECHO_SUPPRESSION,
+      ...(typeof echoSuppression === 'object' ? echoSuppression : {}),
+    };
+  }
+
+  // What the worklet does with mic samples right now
+  private get captureState(): WebVoiceCaptureState {
+    if (this.muted) {
+      return this.options.mutedAudio === 'silence' ? 'silence' : 'closed';
+    }
+    if (this.options.micMode === 'pushToTalk' && !this.talking) {
+      return 'closed';
+    }
+    return 'open';
+  }
+
+  private get heartbeatOptions() {
+    return { ...DEFAULT_HEARTBEAT, ...this.options.heartbeat };
+  }
+
+  private get startAckOptions(): Required<IWebVoiceStartAckOptions> | null {
+    const { startAck } = this.options;
+    if (!startAck) return null;
+    return {
+      ...DEFAULT_START_ACK,
+      ...(typeof startAck === 'object' ? startAck : {}),
+    };
+  }
+
+  private get reconnectPolicy(): Required<IWebVoiceReconnectPolicy> | null {
+    const { reconnectPolicy } = this.options;
+    return reconnectPolicy
+      ? { ...DEFAULT_RECONNECT_POLICY, ...reconnectPolicy }
+      : null;
+  }
+
+  /**
+   * Open the WebSocket; mic capture and the `start` event follow once it is open.
+   * No-op after disconnect() — use reconnect() to start a new session.
+   */
+  connect = (): void => {
+    // Prevent multiple connection attempts
+    if (
+      !this.options.websocketUrl ||
+      this.websocket ||
+      this.authorizing ||
+      this.isCleanedUp ||
+      this.connected
+    ) {
+      return;
+    }
+    this.connectSocket(this.options.websocketUrl, 'connect');
+  };
+
+  /** Close the connection and release mic, AudioContext and playback. */
+  disconnect = (): void => {
+    this.cleanup('client');
+  };
+
+  /** Tear everything down and open a fresh connection. */
+  reconnect = (onConnectionSuccess?: () => void): void => {
+    // Force cleanup any existing connection first
+    this.clearReconnect();
+    this.pendingStartAck?.settle(null);
+    if (this.websocket) {
+      this.websocket.close();
+      this.websocket = null;
+    }
+
+    // Reset all state flags to ensure clean reconnection
+    this.isCleanedUp = false;
+    this.isAudioNodesConnected = false;
+    this.isPlayingAudio = false;
+    this.isStopReceived = false;
+    this.suppressPlayback = false;
+    this.nextPlayTime = 0;
+    this.playbackDrainedAt = 0;
+    this.agentTurnEnded = false;
+
+    this.setConnected(false);
+    this.setPlaying(false);
+
+    // Clear audio buffer
+    this.clearPlaybackStartTimer();
+    this.jitterBuffer = this.createJitterBuffer();
+    this.clearTranscript();
+
+    // Stop any ongoing processing before the context goes away
+    this.stopRecording();
+    this.releaseAudio();
+
+    if (!this.options.websocketUrl) {
+      this.logger.error('Cannot reconnect: websocketUrl is required');
+      return;
+    }
+
+    this.connectSocket(
+      this.options.websocketUrl,
+      'connect',
+      onConnectionSuccess
+    );
+  };
+
+  /** Attach the capture worklet to the mic stream and start streaming `media` events. */
+  startRecording = async (): Promise<void> => {
+    if (!this.stream || !this.inputNode || this.audioWorkletNode) return;
+
+    try {
+      const audioContext = this.getOrCreateAudioContext();
+
+      await this.loadWorklet(audioContext);
+
+      this.captureSampleRate =
+        this.options.captureSampleRate ?? audioContext.sampleRate;
+      this.encoder ??= this.createEncoder();
+
+      const echoSuppression = this.echoSuppressionOptions;
+
+      this.audioWorkletNode = new AudioWorkletNode(
+        audioContext,
+        'audio-processor',
+        {
+          // Input 1 is the echo reference
+          numberOfInputs: echoSuppression ? 2 : 1,
+          numberOfOutputs: 1,
+          channelCount: 1,
+          processorOptions: {
+            sampleRate: audioContext.sampleRate,
+            targetSampleRate: this.captureSampleRate,
+            vad: this.vadOptions,
+            echoSuppression: echoSuppression && {
+              ...echoSuppression,
+              delayMs:
+                echoSuppression.delayMs ?? getOutputLatencyMs(audioContext),
+            },
+            sendOnlyDuringSpeech: !!this.options.sendOnlyDuringSpeech,
+            capture: this.captureState,
+            encoding: this.workletEncoding,
+            base64: this.options.transport !== 'binary',
+            chunkDurationMs: this.options.chunkDurationMs,
+            frameDurationMs: this.options.frameDurationMs,
+          },
+        }
+      );
+
+      this.captureSequence = 0;
+      this.audioWorkletNode.port.onmessage = (event) => {
+        if (event.data.type === 'vad') {
+          this.setUserSpeaking(event.data.speaking);
+          return;
+        }
+        if (event.data.type === 'flushed') {
+          this.flushEncoder();
+          this.onCaptureFlushed();
+          return;
+        }
+        this.checkCaptureSequence(event.data.sequence);
+        this.processCapturedAudio(event.data);
+      };
+
+      this.inputNode.connect(this.audioWorkletNode);
+      this.connectEchoReference();
+      this.syncRecording();
+    } catch (error) {
+      this.logger.error('Failed to start audio processing:', error);
+      this.reportError(error);
+    }
+  };
+
+  /**
+   * Detach the capture worklet; the connection stays open. The partial chunk
+   * still in the worklet is sent first.
+   */
+  stopRecording = (): void => {
+    const node = this.audioWorkletNode;
+    if (node) {
+      this.flushCapture(node);
+      this.audioWorkletNode = null;
+      this.inputNode?.disconnect(node);
+      this.echoReference?.disconnect(node);
+      this.echoReference = null;
+    }
+    this.pendingEndOfUtterance = false;
+    this.setUserSpeaking(false);
+    this.syncRecording();
+  };
+
+  /** Available microphones. Labels are empty until mic permission is granted. */
+  listInputDevices = (): Promise<MediaDeviceInfo[]> => listInputDevices();
+
+  /**
+   * Capture from another microphone (default device when omitted). Swaps the
+   * stream under the running worklet; the connection stays open. Before the
+   * mic is opened this only selects the device.
+   */
+  switchInputDevice = (deviceId?: string): Promise<void> => {
+    // Serialise switches so rapid device changes can't interleave
+    const next = this.inputSwitch.then(async () => {
+      this.inputDeviceId = deviceId;
+      if (!this.stream || this.isCleanedUp) return;
+
+      try {
+        const stream = await this.getMicStream(deviceId);
+        if (!this.stream || this.isCleanedUp) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        const previous = this.stream;
+        this.stream = stream;
+        try {
+          await this.connectStreamSource(stream);
+        } catch (error) {
+          // Keep capturing from the previous device
+          this.stream = previous;
+          stream.getTracks().forEach((track) => track.stop());
+          throw error;
+        }
+        previous.getTracks().forEach((track) => {
+          track.onended = null;
+          track.stop();
+        });
+        this.emit(
+          'deviceChange',
+          await listInputDevices(),
+          this.currentInputDeviceId
+        );
+      } catch (error) {
+        this.logger.error('Failed to switch input device:', error);
+        this.reportError(error);
+        throw error;
+      }
+    });
+    this.inputSwitch = next.catch(() => undefined);
+    return next;
+  };
+
+  /** Available speakers / headsets for setOutputDevice. */
+  listOutputDevices = (): Promise<MediaDeviceInfo[]> => listOutputDevices();
+
+  /**
+   * Route TTS to another speaker (default device when omitted). Applied
+   * immediately if playback is set up, otherwise when it is.
+   */
+  setOutputDevice = async (deviceId?: string): Promise<void> => {
+    this.outputDeviceId = deviceId;
+    if (!this.audioContext || !this.playbackBus) return;
+
+    try {
+      await this.applyOutputDevice(this.audioContext);
+    } catch (error) {
+      this.logger.error('Failed to set output device:', error);
+      this.reportError(error);
+      throw error;
+    }
+  };
+
+  /** Set TTS playback volume (gain, >= 0; 1 = unchanged). Ramped to avoid clicks. */
+  setVolume = (volume: number): void => {
+    const level = Math.max(0, volume);
+    if (level === this.volumeLevel) return;
+    this.volumeLevel = level;
+
+    if (this.playbackBus) {
+      const { context, gain } = this.playbackBus;
+      gain.setTargetAtTime(level, context.currentTime, 0.015);
+    }
+    this.emit('volume', level);
+  };
+
+  /**
+   * The conversation so far as a stereo WAV (left user, right agent), or null
+   * without the `recording` option. Still available after disconnect; in
+   * streaming mode only audio not yet emitted as chunks is included.
+   */
+  getRecording = (): Blob | null => this.recorder?.toWav() ?? null;
+
+  /** Like getRecording(), as one mono WAV per side. */
+  getRecordingTracks = (): IWebVoiceRecordingTracks | null =>
+    this.recorder?.toTracks() ?? null;
+
+  /** Free the buffered recording; recording continues. */
+  clearRecording = (): void => {
+    this.recorder?.clear();
+  };
+
+  /** Metrics for the current connection (a plain object; see IWebVoiceStats). */
+  getStats = (): IWebVoiceStats =>
+    this.stats.snapshot(this.getBufferedPlaybackMs());
+
+  /**
+   * Subscribe to one app-specific server event (one the client doesn't
+   * handle itself). Returns an unsubscribe function.
+   */
+  onServerEvent = (
+    event: string,
+    handler: (message: IWebVoiceCustomMessage) => void
+  ): (() => void) => {
+    let handlers = this.serverEventHandlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.serverEventHandlers.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers!.delete(handler);
+    };
+  };
+
+  /**
+   * Send an app event over the open socket: `{ event: name, ...payload }`
+   * (DTMF, context updates…). Returns false when the socket isn't open.
+   */
+  sendEvent = (name: string, payload: Record<string, unknown> = {}): boolean =>
+    this.sendIfOpen({ ...payload, event: name });
+
+  /** Send typed user input as `{ event: 'text', text }`. Returns false when the socket isn't open. */
+  sendText = (text: string): boolean =>
+    this.sendIfOpen({ event: 'text', text });
+
+  /** Keep the mic track alive but stop sending it (or send silence, per `mutedAudio`). */
+  mute = (): void => {
+    if (this.muted) return;
+    this.muted = true;
+    this.updateCapture();
+    this.emit('muted', true);
+  };
+
+  unmute = (): void => {
+    if (!this.muted) return;
+    this.muted = false;
+    this.updateCapture();
+    this.emit('muted', false);
+  };
+
+  /** Push-to-talk: start streaming mic audio. No-op unless `micMode` is 'pushToTalk'. */
+  pressToTalk = (): void => {
+    if (this.options.micMode !== 'pushToTalk' || this.talking) return;
+    this.talking = true;
+    this.updateCapture();
+  };
+
+  /**
+   * Push-to-talk: send the buffered tail, stop streaming, then send `EOU`
+   * so the server can finalise STT.
+   */
+  releaseToTalk = (): void => {
+    if (this.options.micMode !== 'pushToTalk' || !this.talking) return;
+    this.talking = false;
+    if (this.audioWorkletNode) {
+      // Sent once the worklet has flushed its partial chunk
+      this.pendingEndOfUtterance = true;
+      this.updateCapture();
+    } else {
+      this.sendEndOfUtterance();
+    }
+    this.stats.speechEnded();
+    this.setConversationState('agentThinking');
+  };
+
+  private updateCapture() {
+    this.audioWorkletNode?.port.postMessage({
+      type: 'capture',
+      state: this.captureState,
+    });
+    this.syncRecording();
+  }
+
+  private syncRecording() {
+    const recording = this.isRecording;
+    if (this.recording === recording) return;
+    this.recording = recording;
+    this.emit('recording', recording);
+  }
+
+  // Gaps in the worklet's numbering are chunks that never reached us
+  private checkCaptureSequence(sequence?: number) {
+    // Older worklets (custom workletPath) don't number their chunks
+    if (sequence === undefined) return;
+    for (let i = this.captureSequence; i < sequence; i++) {
+      this.stats.dropped('sent');
+    }
+    this.captureSequence = sequence + 1;
+  }
+
+  private processCapturedAudio({
+    data,
+    timestamp,
+    encoded: encodedBuffer,
+    payload,
+  }: {
+    data: Float32Array;
+    timestamp: number;
+    encoded?: ArrayBuffer;
+    payload?: string;
+  }) {
+    const encoded = encodedBuffer && new Uint8Array(encodedBuffer);
+    this.recordAudio(
+      'user',
+      data,
+      this.captureSampleRate,
+      timestamp - data.length / this.captureSampleRate
+    );
+    // Held until `start` is sent (and acknowledged) or the socket is back
+    if (!this.sessionStarted) {
+      this.bufferOfflineAudio(data, timestamp, encoded, payload);
+    } else if (this.websocket?.readyState === WebSocket.OPEN) {
+      this.sendMedia(data, timestamp, encoded, payload);
+    } else {
+      this.stats.dropped('sent');
+    }
+  }
+
+  // Ask the detached worklet for its partial chunk, then disconnect it
+  private flushCapture(node: AudioWorkletNode) {
+    const detach = () => {
+      clearTimeout(timer);
+      node.port.onmessage = null;
+      node.disconnect();
+    };
+    // The worklet can't answer once the AudioContext is closed
+    const timer = setTimeout(detach, CAPTURE_FLUSH_TIMEOUT_MS);
+
+    // The tail belongs to this connection: after a reconnect (or with none)
+    // it would be buffered and sent at the start of the next session
+    const ws = this.websocket;
+    const isCurrent = () => !this.isCleanedUp && !!ws && this.websocket === ws;
+
+    node.port.onmessage = (event) => {
+      if (event.data.type === 'flushed') {
+        detach();
+        if (isCurrent()) this.flushEncoder();
+      } else if (event.data.type === 'audio-data' && isCurrent()) {
+        this.processCapturedAudio(event.data);
+      }
+    };
+    node.port.postMessage({ type: 'flush' });
+  }
+
+  private onCaptureFlushed() {
+    if (!this.pendingEndOfUtterance) return;
+    this.pendingEndOfUtterance = false;
+    this.sendEndOfUtterance();
+  }
+
+  // Queued behind in-flight media so the server sees it after the last chunk
+  private sendEndOfUtterance() {
+    this.sendQueue = this.sendQueue.then(() => {
+      if (this.websocket?.readyState === WebSocket.OPEN) {
+        this.send({ event: 'EOU' });
+      }
+    });
+  }
+
+  // With `auth`, fetch a token before opening; superseded attempts are dropped
+  private async connectSocket(
+    url: string,
+    reason: WebVoiceTokenReason,
+    onConnectionSuccess?: () => void
+  ) {
+    const { auth } = this.options;
+    if (!auth) {
+      this.openSocket(url, onConnectionSuccess);
+      return;
+    }
+
+    const attempt = ++this.connectAttempt;
+    this.authorizing = true;
+    this.setConversationState('connecting');
+
+    let token: string;
+    try {
+      token = await auth.getToken({ reason });
+    } catch (error) {
+      if (attempt !== this.connectAttempt) return;
+      this.authorizing = false;
+      this.logger.error('Failed to get auth token:', error);
+      this.reportError(error);
+      this.cleanup('server');
+      return;
+    }
+    if (attempt !== this.connectAttempt || this.isCleanedUp) return;
+    this.authorizing = false;
+
+    this.authToken = token;
+    this.openSocket(
+      auth.placement === 'start'
+        ? url
+        : withQueryParam(url, auth.param ?? 'token', token),
+      onConnectionSuccess
+    );
+  }
+
+  private openSocket(url: string, onConnectionSuccess?: () => void) {
+    const ws = new WebSocket(url);
+    ws.binaryType = 'arraybuffer';
+    this.sessionStarted = false;
+    this.lastSentTTSEvent = false;
+    this.rtt = null;
+    this.stats.reset();
+    this.setConversationState('connecting');
+
+    this.websocket = ws;
+
+    ws.onopen = async () => {
+      if (this.isCleanedUp) {
+        ws.close();
+        return;
+      }
+      this.setConnected(true);
+      this.emit('open');
+      this.setConversationState(this.playing ? 'agentSpeaking' : 'listening');
+
+      const resumedAttempt = this.reconnectAttempt;
+
+      this.sendPing();
+      this.startPing();
+      this.startStats();
+
+      try {
+        await this.setupAudioStream();
+        await this.startRecording();
+      } catch {
+        // Already reported by setupAudioStream
+        return;
+      }
+      if (!(await this.startSession(ws, resumedAttempt))) return;
+
+      this.resendSessionState();
+      // Mic audio held during the handshake (or while offline) goes out now
+      this.flushOfflineAudio();
+      if (resumedAttempt > 0) {
+        this.reconnectAttempt = 0;
+        this.logger.info('Reconnected after attempt', resumedAttempt);
+        this.emit('reconnected', resumedAttempt);
+      }
+      onConnectionSuccess?.();
+    };
+
+    ws.onmessage = (event) => {
+      if (this.isCleanedUp || this.websocket !== ws) return;
+      if (event.data instanceof ArrayBuffer) {
+        this.processMediaFrame(event.data);
+        return;
+      }
+      let message: ReturnType<typeof parseServerMessage>;
+      try {
+        message = parseServerMessage(event.data);
+      } catch (error) {
+        // WebVoiceProtocolError carries the offending frame as `payload`
+        this.logger.error('Malformed websocket message:', error);
+        this.reportError(error);
+        return;
+      }
+      // A server `ping` is the protocol's echo of ours
+      if (
+        message.event === 'ping' ||
+        message.event === this.heartbeatOptions.pongEvent
+      ) {
+        this.processPong(message as IWebVoiceCustomMessage);
+        return;
+      }
+      if (isServerMessage(message)) {
+        this.processAudioMessage(message);
+      } else {
+        this.processCustomMessage(message);
+      }
+    };
+
+    ws.onclose = (e) => {
+      // Ignore sockets replaced by reconnect()
+      if (this.websocket !== ws) return;
+
+      this.stopPing();
+
+      if (this.isAuthExpiry(e)) {
+        this.logger.info('Auth expired:', e.reason || e.code);
+        this.emit('authExpired', e.reason);
+        if (this.options.reloadOnLinkExpired && e.reason === 'LINK_EXPIRED') {
+          location.reload();
+        } else if (!this.isCleanedUp && this.shouldRefreshAuth()) {
+          this.scheduleReconnect('expired');
+          return;
+        }
+      } else if (!this.isCleanedUp && this.shouldReconnect(e.code)) {
+        this.scheduleReconnect('reconnect');
+        return;
+      }
+      // Only trigger cleanup if it wasn't manually initiated
+      if (!this.isCleanedUp) {
+        this.cleanup('server');
+      }
+      // Stop processing audio when WebSocket closes
+      this.stopRecording();
+    };
+
+    ws.onerror = (error) => {
+      if (this.websocket !== ws) return;
+      this.logger.error('WebSocket error:', error);
+      this.reportError(error);
+      // With a reconnect policy, the close event that follows decides
+      if (this.reconnectPolicy) return;
+      // Ensure we're not in a cleanup state before triggering another cleanup
+      if (!this.isCleanedUp) {
+        this.cleanup('server');
+      }
+    };
+  }
+
+  private shouldReconnect(code: number) {
+    const policy = this.reconnectPolicy;
+    return (
+      !!policy &&
+      !this.isStopReceived &&
+      policy.retryableCloseCodes.includes(code)
+    );
+  }
+
+  private isAuthExpiry({ code, reason }: CloseEvent) {
+    const { expiredReasons = DEFAULT_EXPIRED_REASONS, expiredCloseCodes = [] } =
+      this.options.auth ?? {};
+    return expiredReasons.includes(reason) || expiredCloseCodes.includes(code);
+  }
+
+  private shouldRefreshAuth() {
+    const { auth } = this.options;
+    return !!auth && auth.refreshOnExpiry !== false && !this.isStopReceived;
+  }
+
+  /**
+   * Keep mic stream, AudioContext and worklet alive; only the socket is
+   * re-opened. An expired token is refreshed straight away.
+   */
+  private scheduleReconnect(reason: WebVoiceTokenReason) {
+    const policy = this.reconnectPolicy ?? DEFAULT_RECONNECT_POLICY;
+
+    this.websocket = null;
+    this.sessionStarted = false;
+    this.pendingStartAck?.settle(null);
+    this.setConnected(false);
+    this.reconnectAttempt += 1;
+    this.setConversationState('connecting');
+
+    if (this.reconnectAttempt > policy.maxAttempts) {
+      this.logger.error(
+        'Giving up after',
+        policy.maxAttempts,
+        'reconnection attempts'
+      );
+      this.cleanup('server');
+      return;
+    }
+
+    const attempt = this.reconnectAttempt;
+    const delayMs =
+      reason === 'expired' && attempt === 1
+        ? 0
+        : getBackoffDelay(attempt, policy);
+    this.logger.info('Reconnecting, attempt', attempt, 'in', delayMs, 'ms');
+    this.emit('reconnecting', attempt, delayMs);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.isCleanedUp) return;
+      if (!this.options.websocketUrl) {
+        this.logger.error('Cannot reconnect: websocketUrl is required');
+        this.cleanup('server');
+        return;
+      }
+      this.connectSocket(this.options.websocketUrl, reason);
+    }, delayMs);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+    this.offlineAudio = [];
+  }
+
+  // Built-in G.711 / PCM16 are encoded in the worklet, off the main thread
+  private get workletEncoding(): WebVoiceCodec | undefined {
+    const { outputCodec = 'mulaw', mainThreadAudio } = this.options;
+    return !mainThreadAudio &&
+      typeof outputCodec === 'string' &&
+      WORKLET_CODECS.includes(outputCodec)
+      ? outputCodec
+      : undefined;
+  }
+
+  private createEncoder(): IWebVoiceAudioEncoder {
+    const { outputCodec = 'mulaw' } = this.options;
+    return typeof outputCodec === 'string'
+      ? createAudioEncoder(outputCodec)
+      : outputCodec;
+  }
+
+  /**
+   * Send `start` and, with `startAck`, wait for the server's acknowledgement.
+   * Resolves false when the socket was replaced or the handshake failed
+   * (reported, connection closed).
+   */
+  private async startSession(ws: WebSocket, reconnectAttempt: number) {
+    // A failure building `start` (startPayload) is ours; a missing ack is the server's
+    let source: WebVoiceCloseSource = 'client';
+    try {
+      const message = await this.getStartMessage(reconnectAttempt);
+      if (this.websocket !== ws) return false;
+
+      const ackOptions = this.startAckOptions;
+      const acknowledged = ackOptions && this.waitForStartAck(ackOptions);
+      this.send(message);
+      this.stats.startSent();
+      source = 'server';
+
+      const ack = acknowledged ? await acknowledged : null;
+      if (this.websocket !== ws || (acknowledged && !ack)) return false;
+
+      this.sessionStarted = true;
+      this.emit('started', ack);
+      return true;
+    } catch (error) {
+      this.logger.error('Start handshake failed:', error);
+      this.reportError(error);
+      if (this.websocket === ws) this.cleanup(source);
+      return false;
+    }
+  }
+
+  // `start` announces the outbound audio format, transport and session info
+  private async getStartMessage(
+    reconnectAttempt: number
+  ): Promise<IWebVoiceStartMessage> {
+    const { conversationId, startPayload, transport = 'json' } = this.options;
+    const payload =
+      typeof startPayload === 'function'
+        ? await startPayload({ conversationId, reconnectAttempt })
+        : startPayload;
+
+    return {
+      transport,
+      ...(this.encoder && {
+        media_format: {
+          encoding: this.encoder.codec,
+          sample_rate: this.encoder.sampleRate ?? this.captureSampleRate,
+          channels: CHANNELS,
+          ...(this.encoder.framing && { framing: this.encoder.framing }),
+        },
+      }),
+      ...(conversationId && { conversation_id: conversationId }),
+      ...this.getStartAuthField(),
+      client: CLIENT_INFO,
+      ...payload,
+      event: 'start',
+    };
+  }
+
+  private getStartAuthField() {
+    const { auth } = this.options;
+    if (auth?.placement !== 'start' || !this.authToken) return {};
+    return { [auth.param ?? 'token']: this.authToken };
+  }
+
+  // Settled by processCustomMessage (ack), a timeout (rejects) or teardown (null)
+  private waitForStartAck({
+    event,
+    timeoutMs,
+  }: Required<IWebVoiceStartAckOptions>) {
+    return new Promise<IWebVoiceCustomMessage | null>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingStartAck = null;
+        reject(
+          new Error(`No '${event}' from the server within ${timeoutMs}ms`)
+        );
+      }, timeoutMs);
+
+      this.pendingStartAck = {
+        event,
+        settle: (ack) => {
+          clearTimeout(timer);
+          this.pendingStartAck = null;
+          resolve(ack);
+        },
+      };
+    });
+  }
+
+  private sendMedia(
+    data: Float32Array,
+    timestamp: number,
+    preEncoded?: Uint8Array,
+    payload?: string
+  ) {
+    const encoder = this.encoder;
+    if (!encoder) return;
+    const sampleRate = this.captureSampleRate;
+    this.lastMediaTimestamp = timestamp;
+    this.queueMedia(
+      encoder,
+      timestamp,
+      () => preEncoded ?? encoder.encode(data, sampleRate),
+      payload
+    );
+  }
+
+  // Capture stopped: send what a buffering encoder (Opus) still holds
+  private flushEncoder() {
+    const encoder = this.encoder;
+    if (!encoder?.flush || !this.sessionStarted) return;
+    this.queueMedia(encoder, this.lastMediaTimestamp, () => encoder.flush!());
+  }
+
+  // Encoders may be async (Opus), so chunks are chained to keep their order
+  private queueMedia(
+    encoder: IWebVoiceAudioEncoder,
+    timestamp: number,
+    encode: () => Uint8Array | Promise<Uint8Array>,
+    payload?: string
+  ) {
+    const sampleRate = this.captureSampleRate;
+
+    this.sendQueue = this.sendQueue
+      .then(async () => {
+        const encoded = await encode();
+        // Nothing encoded yet (Opus output lags its input)
+        if (encoded.byteLength === 0) return;
+        if (this.websocket?.readyState !== WebSocket.OPEN) {
+          this.stats.dropped('sent');
+          return;
+        }
+        const sequence = this.mediaSequence++;
+        this.stats.sent(encoded.byteLength);
+
+        if (this.options.transport === 'binary') {
+          this.websocket.send(
+            encodeMediaFrame(
+              {
+                sequence,
+                sampleRate: encoder.sampleRate ?? sampleRate,
+                timestamp: timestamp * 1000,
+                codec: encoder.codec,
+              },
+              encoded
+            )
+          );
+          return;
+        }
+
+        this.send({
+          event: 'media',
+          media: {
+            // Built-in codecs arrive in base64 from the worklet
+            payload: payload ?? uint8ArrayToBase64(encoded),
+            timestamp,
+          },
+        });
+      })
+      .catch((error) => {
+        this.stats.dropped('sent');
+        this.logger.error('Error encoding audio chunk:', error);
+        this.reportError(error);
+      });
+  }
+
+  private bufferOfflineAudio(
+    data: Float32Array,
+    timestamp: number,
+    encoded?: Uint8Array,
+    payload?: string
+  ) {
+    const limitMs = this.isReconnecting
+      ? (this.reconnectPolicy ?? DEFAULT_RECONNECT_POLICY).offlineBufferMs
+      : (this.startAckOptions?.timeoutMs ?? DEFAULT_START_ACK.timeoutMs);
+    this.offlineAudio.push({
+      data,
+      encoded,
+      payload,
+      timestamp,
+      durationMs: (data.length / this.captureSampleRate) * 1000,
+    });
+
+    // Drop the oldest audio once over the limit
+    let bufferedMs = this.offlineAudio.reduce(
+      (acc, chunk) => acc + chunk.durationMs,
+      0
+    );
+    while (this.offlineAudio.length > 0 && bufferedMs > limitMs) {
+      bufferedMs -= this.offlineAudio.shift()!.durationMs;
+      this.stats.dropped('sent');
+    }
+  }
+
+  private flushOfflineAudio() {
+    const chunks = this.offlineAudio;
+    this.offlineAudio = [];
+    chunks.forEach(({ data, timestamp, encoded, payload }) =>
+      this.sendMedia(data, timestamp, encoded, payload)
+    );
+  }
+
+  private sendPing() {
+    this.lastPingAt = Date.now();
+    this.send({
+      event: 'ping',
+      metadata: { timestamp: this.lastPingAt.toString() },
+    });
+
+    // One deadline at a time: it runs from the oldest unanswered ping
+    const { timeoutMs } = this.heartbeatOptions;
+    const ws = this.websocket;
+    if (timeoutMs > 0 && ws && !this.pongTimer) {
+      this.pongTimer = setTimeout(
+        () => this.onHeartbeatTimeout(ws, timeoutMs),
+        timeoutMs
+      );
+    }
+  }
+
+  private startPing() {
+    // Clear any existing ping interval before starting a new one
+    this.stopPing();
+    this.pingInterval = setInterval(() => {
+      if (this.isCleanedUp || this.websocket?.readyState !== WebSocket.OPEN) {
+        this.stopPing();
+        return;
+      }
+      this.sendPing();
+    }, this.heartbeatOptions.intervalMs);
+  }
+
+  private stopPing() {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    this.clearPongTimer();
+  }
+
+  private clearPongTimer() {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  // The pong echoes the ping's metadata.timestamp; without it, assume the latest ping
+  private processPong(message: IWebVoiceCustomMessage) {
+    this.clearPongTimer();
+    const { metadata } = message as { metadata?: { timestamp?: unknown } };
+    const sentAt = Number(metadata?.timestamp);
+    const rtt =
+      Date.now() - (Number.isFinite(sentAt) ? sentAt : this.lastPingAt);
+    if (rtt < 0) return;
+    this.rtt = rtt;
+    this.emit('rtt', rtt);
+  }
+
+  /** No pong in time: the socket is half-open, so stop waiting on it. */
+  private onHeartbeatTimeout(ws: WebSocket, timeoutMs: number) {
+    this.pongTimer = null;
+    if (this.isCleanedUp || this.websocket !== ws) return;
+
+    this.logger.error('No pong within', timeoutMs, 'ms; dropping the socket');
+    this.reportError(new Error(`Heartbeat timed out after ${timeoutMs}ms`));
+    this.stopPing();
+
+    const { onTimeout = this.reconnectPolicy ? 'reconnect' : 'close' } =
+      this.heartbeatOptions;
+    if (onTimeout === 'reconnect') {
+      // Detach first so the late close event is ignored
+      this.scheduleReconnect('reconnect');
+      ws.close();
+    } else {
+      this.cleanup('server');
+    }
+  }
+
+  /**
+   * Persistent TTS bus: gain → user `playbackNodes` → destination (or an
+   * <audio> element when the context can't pick its own output device).
+   */
+  private getPlaybackBus(audioContext: AudioContext): GainNode {
+    if (this.playbackBus?.context === audioContext) return this.playbackBus;
+
+    const bus = audioContext.createGain();
+    bus.gain.value = this.volumeLevel;
+
+    const nodes = this.options.playbackNodes?.(audioContext) ?? [];
+    this.playbackOutput = nodes.reduce<AudioNode>(
+      (previous, node) => previous.connect(node),
+      bus
+    );
+    this.playbackOutput.connect(audioContext.destination);
+    this.playbackBus = bus;
+    this.connectEchoReference();
+
+    if (this.outputDeviceId) {
+      this.applyOutputDevice(audioContext).catch((error) => {
+        this.logger.error('Failed to set output device:', error);
+        this.reportError(error);
+      });
+    }
+    return bus;
+  }
+
+  private async applyOutputDevice(audioContext: SinkableAudioContext) {
+    const sinkId = this.outputDeviceId ?? '';
+
+    if (typeof audioContext.setSinkId === 'function') {
+      await audioContext.setSinkId(sinkId);
+      return;
+    }
+
+    // Fallback: play the bus through an <audio> element, which can pick a sink
+    if (!this.outputElement && this.playbackOutput) {
+      const destination = audioContext.createMediaStreamDestination();
+      this.playbackOutput.disconnect();
+      this.playbackOutput.connect(destination);
+      this.echoReference = null;
+      this.connectEchoReference();
+
+      const element = new Audio();
+      element.srcObject = destination.stream;
+      this.outputElement = element;
+      await element.play();
+    }
+    await this.outputElement?.setSinkId(sinkId);
+  }
+
+  private releasePlaybackBus() {
+    this.playbackBus?.disconnect();
+    this.playbackOutput?.disconnect();
+    this.playbackBus = null;
+    this.playbackOutput = null;
+    this.echoReference = null;
+
+    if (this.outputElement) {
+      this.outputElement.pause();
+      this.outputElement.srcObject = null;
+      this.outputElement = null;
+    }
+  }
+
+  // The worklet hears what is played, to remove it from the mic
+  private connectEchoReference() {
+    const node = this.audioWorkletNode;
+    const output = this.playbackOutput;
+    if (!node || !output || this.echoReference === output) return;
+    if (node.numberOfInputs < 2 || output.context !== node.context) return;
+
+    output.connect(node, 0, 1);
+    this.echoReference = output;
+  }
+
+  // Create a single AudioContext instance
+  private getOrCreateAudioContext() {
+    if (!this.audioContext || this.audioContext.state === 'closed') {
+      this.audioContext = new (window.AudioContext ||
+        (window as any).webkitAudioContext)({
+        sampleRate: SAMPLE_RATE,
+        latencyHint: 'playback',
+      });
+    }
+    return this.audioContext;
+  }
+
+  // Load the Audio Worklet once per AudioContext: use embedded (Blob URL) when workletPath omitted, else fetch from URL
+  private async loadWorklet(audioContext: AudioContext) {
+    if (this.workletContext === audioContext) return;
+
+    const { workletPath } = this.options;
+    const useEmbedded = workletPath === undefined || workletPath === '';
+    const workletUrl = useEmbedded
+      ? URL.createObjectURL(
+          new Blob([audioProcessorSource], {
+            type: 'application/javascript',
+          })
+        )
+      : workletPath;
+    try {
+      await audioContext.audioWorklet.addModule(workletUrl);
+      this.workletContext = audioContext;
+    } finally {
+      if (useEmbedded) {
+        URL.revokeObjectURL(workletUrl);
+      }
+    }
+  }
+
+  // addModule once per AudioContext for each custom worklet stage
+  private loadStageModule(audioContext: AudioContext, moduleUrl: string) {
+    if (this.stageModuleContext !== audioContext) {
+      this.stageModuleContext = audioContext;
+      this.stageModules.clear();
+    }
+
+    let loading = this.stageModules.get(moduleUrl);
+    if (!loading) {
+      loading = audioContext.audioWorklet.addModule(moduleUrl);
+      // A failed load is retried on the next attempt
+      loading.catch(() => this.stageModules.delete(moduleUrl));
+      this.stageModules.set(moduleUrl, loading);
+    }
+    return loading;
+  }
+
+  private initializeVisualizer(
+    source: AudioBufferSourceNode | MediaStreamAudioSourceNode
+  ) {
+    const {
+      elementId,
+      color,
+      options: analyzerOptions,
+    } = this.options.visualizerOptions ?? {};
+
+    if (elementId && !this.analyzer && !this.isCleanedUp) {
+      const analyzer = new AudioMotionAnalyzer(
+        document.getElementById(elementId)!,
+        {
+          ...(analyzerOptions ?? getVisualizerOptions(source)),
+        }
+      );
+
+      // Start the analyzer
+      analyzer.start();
+
+      if (color) {
+        applyCustomColor(analyzer, color);
+      }
+
+      this.analyzer = analyzer;
+    } else {
+      this.analyzer?.connectInput(source);
+    }
+  }
+
+  private async setupAudioStream() {
+    if (this.isAudioNodesConnected) return;
+
+    resetAudioInput(this.stream);
+
+    try {
+      this.stream = await this.getMicStream(this.inputDeviceId);
+      await this.connectStreamSource(this.stream);
+      this.startConversationRecording();
+
+      navigator.mediaDevices.addEventListener?.(
+        'devicechange',
+        this.handleDeviceChange
+      );
+
+      this.isAudioNodesConnected = true;
+    } catch (e) {
+      this.logger.error('Error setting up audio stream:', e);
+      this.reportError(e);
+      throw e;
+    }
+  }
+
+  private getMicStream(deviceId?: string) {
+    return navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...DEFAULT_CAPTURE_CONSTRAINTS,
+        ...this.options.capture?.constraints,
+        ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      },
+    });
+  }
+
+  // Build the input graph for a mic stream; re-run when the device is swapped
+  private async connectStreamSource(stream: MediaStream) {
+    const audioContext = this.getOrCreateAudioContext();
+
+    // Processing stages shape what the worklet captures and sends
+    const chain = await createProcessingChain(
+      audioContext,
+      this.processingStages,
+      {
+        loadWorklet: () => this.loadWorklet(audioContext),
+        loadModule: (moduleUrl) =>
+          this.loadStageModule(audioContext, moduleUrl),
+      }
+    );
+    // Audio was released while stage modules loaded
+    if (this.audioContext !== audioContext) {
+      chain.forEach((node) => node.disconnect());
+      return;
+    }
+
+    this.streamSourceNode?.disconnect();
+    this.inputChain.forEach((node) => node.disconnect());
+    const source = audioContext.createMediaStreamSource(stream);
+    if (chain.length > 0) {
+      source.connect(chain[0]);
+    }
+
+    // Not connected to the destination, to prevent a feedback loop
+    this.initializeVisualizer(source);
+    this.streamSourceNode = source;
+    this.inputChain = chain;
+    this.inputNode = chain[chain.length - 1] ?? source;
+
+    // Re-point a running worklet at the new stream
+    if (this.audioWorkletNode) {
+      this.inputNode.connect(this.audioWorkletNode);
+    }
+
+    // An unplugged device ends its track
+    stream.getAudioTracks().forEach((track) => {
+      track.onended = () => {
+        if (this.stream === stream) this.fallbackToDefaultInput();
+      };
+    });
+  }
+
+  // A new session starts a new recording; the previous one is finished
+  private startConversationRecording() {
+    const { recording } = this.options;
+    if (!recording) return;
+
+    this.recorder?.finish();
+    this.recorder = new WebVoiceRecorder(
+      SAMPLE_RATE,
+      this.getOrCreateAudioContext().currentTime,
+      typeof recording === 'object' ? recording : {},
+      (chunk) => this.emit('recordingChunk', chunk)
+    );
+  }
+
+  private recordAudio(
+    track: 'user' | 'agent',
+    samples: Float32Array,
+    sampleRate: number,
+    startTime: number
+  ) {
+    if (!this.recorder || !this.audioContext) return;
+    this.recorder.write(track, samples, sampleRate, startTime);
+    this.recorder.flush(this.audioContext.currentTime);
+  }
+
+  private handleDeviceChange = async () => {
+    try {
+      const devices = await listInputDevices();
+      const activeId = this.currentInputDeviceId;
+
+      // The active mic was unplugged: fall back (which emits deviceChange)
+      if (
+        this.stream &&
+        activeId &&
+        !devices.some((device) => device.deviceId === activeId)
+      ) {
+        this.fallbackToDefaultInput();
+        return;
+      }
+      this.emit('deviceChange', devices, activeId);
+    } catch (error) {
+      this.logger.error('Error handling device change:', error);
+    }
+  };
+
+  private startStats() {
+    this.stopStats();
+    this.statsTimer = setInterval(() => {
+      if (this.hasListeners('stats')) this.emit('stats', this.getStats());
+    }, this.options.statsIntervalMs ?? STATS_INTERVAL_MS);
+  }
+
+  private stopStats() {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
+  // Queued TTS plus what is scheduled on the AudioContext but not yet heard
+  private getBufferedPlaybackMs() {
+    const queued = (this.jitterBuffer.bufferedSamples / SAMPLE_RATE) * 1000;
+    return queued + this.getScheduledMs();
+  }
+
+  // TTS handed to the AudioContext that hasn't played yet
+  private getScheduledMs() {
+    if (!this.audioContext || this.scheduledSources.size === 0) return 0;
+    return (
+      Math.max(0, this.nextPlayTime - this.audioContext.currentTime) * 1000
+    );
+  }
+
+  private fallbackToDefaultInput() {
+    if (this.isCleanedUp || !this.stream) return;
+    this.logger.info('Input device lost; falling back to default');
+    this.switchInputDevice(undefined).catch(() => {
+      // Already reported by switchInputDevice
+    });
+  }
+
+  private processMediaFrame(buffer: ArrayBuffer) {
+    try {
+      const { codec, sampleRate, payload } = this.decodeFrame(buffer);
+      this.markChunkReceived(payload.length);
+      this.backendSampleRate = sampleRate || SAMPLE_RATE;
+      this.processAudioChunk(payload, codec);
+    } catch (error) {
+      this.stats.dropped('received');
+      this.logger.error('Error processing media frame:', error);
+      this.reportError(error);
+    }
+  }
+
+  // Malformed frames are reported with the raw buffer as the error payload
+  private decodeFrame(buffer: ArrayBuffer) {
+    try {
+      const { header, payload } = decodeMediaFrame(buffer);
+      if (!header.codec) {
+        throw new Error('Binary media frame has an unknown codec id');
+      }
+      return { codec: header.codec, sampleRate: header.sampleRate, payload };
+    } catch (error) {
+      throw new WebVoiceProtocolError((error as Error).message, buffer);
+    }
+  }
+
+  private markChunkReceived(bytes: number) {
+    this.stats.received(bytes);
+    if (this.chunkReceivedAt === 0) {
+      this.chunkReceivedAt = Date.now();
+      this.logger.info('Chunk received at:', this.chunkReceivedAt);
+    }
+  }
+
+  // `audio` is a binary frame's bytes or a JSON message's base64 payload,
+  // which is decoded with the audio (in the worker when there is one)
+  private processAudioChunk(audio: Uint8Array | string, encoding: string) {
+    if (this.suppressPlayback) {
+      this.stats.dropped('received');
+      return;
+    }
+
+    // Use the existing AudioContext instead of creating a new one
+    this.getOrCreateAudioContext();
+
+    const decoder = this.getDecoder();
+    if (decoder) {
+      const request = {
+        type: 'decode',
+        generation: this.decodeGeneration,
+        encoding,
+        sampleRate: this.backendSampleRate,
+        outputRate: SAMPLE_RATE,
+      };
+      if (typeof audio === 'string') {
+        decoder.postMessage({ ...request, payload: audio });
+      } else {
+        // Copied: `audio` may be a view into a larger frame
+        const buffer = audio.slice().buffer;
+        decoder.postMessage({ ...request, bytes: buffer }, [buffer]);
+      }
+      return;
+    }
+
+    try {
+      const bytes =
+        typeof audio === 'string' ? base64ToUint8Array(audio) : audio;
+      // Decode payload to Float32 (WAV payloads carry their own rate)
+      const {
+        samples: float32Data,
+        sampleRate = this.backendSampleRate,
+        wavFormat,
+      } = decodeAudioPayload(bytes, encoding, this.wavFormat);
+      if (wavFormat) this.wavFormat = wavFormat;
+
+      // Resample audio data if necessary; one resampler per stream keeps chunk edges seamless
+      if (
+        sampleRate !== SAMPLE_RATE &&
+        this.playbackResampler?.inputRate !== sampleRate
+      ) {
+        this.playbackResampler = new StreamingResampler(
+          sampleRate,
+          SAMPLE_RATE
+        );
+      }
+      const rightSampled =
+        sampleRate === SAMPLE_RATE
+          ? float32Data
+          : this.playbackResampler!.process(float32Data);
+
+      this.queuePlayback(rightSampled);
+    } catch (error) {
+      this.stats.dropped('received');
+      this.logger.error('Error processing audio chunk:', error);
+      this.reportError(error);
+    }
+  }
+
+  // Decoded TTS at SAMPLE_RATE, from either decode path
+  private queuePlayback(samples: Float32Array) {
+    this.jitterBuffer.push(samples, performance.now(), this.isPlayingAudio);
+    const droppedMs = this.jitterBuffer.catchUp(this.getScheduledMs());
+    if (droppedMs > 0) {
+      this.logger.info('Playback behind; dropped', droppedMs, 'ms of TTS');
+    }
+    this.playNextChunk();
+  }
+
+  /**
+   * Worker decoding inbound TTS, created on first use. Null with
+   * `mainThreadAudio`, or once a Worker couldn't be started (e.g. a CSP
+   * without blob: in worker-src); decoding then stays on the main thread.
+   */
+  private getDecoder(): Worker | null {
+    if (
+      this.options.mainThreadAudio ||
+      this.decoderFailed ||
+      typeof Worker === 'undefined'
+    ) {
+      return null;
+    }
+    if (this.decoder) return this.decoder.worker;
+
+    // Kept until the worker is terminated; it may still be loading from it
+    const url = URL.createObjectURL(
+      new Blob([decodeWorkerSource], { type: 'application/javascript' })
+    );
+    try {
+      const worker = new Worker(url);
+      worker.onmessage = this.handleDecoded;
+      worker.onerror = (event) => {
+        this.logger.error('Decode worker failed; using the main thread', event);
+        this.decoderFailed = true;
+        this.releaseDecoder();
+      };
+      this.decoder = { worker, url };
+      return worker;
+    } catch (error) {
+      URL.revokeObjectURL(url);
+      this.logger.error(
+        'Cannot start decode worker; using the main thread',
+        error
+      );
+      this.decoderFailed = true;
+      return null;
+    }
+  }
+
+  private handleDecoded = (event: MessageEvent) => {
+    const { type, generation } = event.data;
+    // Playback was stopped (barge-in, teardown) after this chunk was sent
+    if (this.isCleanedUp || generation !== this.decodeGeneration) return;
+
+    if (type === 'error') {
+      this.stats.dropped('received');
+      const error = new Error(event.data.message);
+      this.logger.error('Error processing audio chunk:', error);
+      this.reportError(error);
+      return;
+    }
+    this.queuePlayback(event.data.samples);
+  };
+
+  private releaseDecoder() {
+    if (!this.decoder) return;
+    this.decoder.worker.terminate();
+    URL.revokeObjectURL(this.decoder.url);
+    this.decoder = null;
+  }
+
+  private createJitterBuffer() {
+    return new WebVoiceJitterBuffer(SAMPLE_RATE, this.options.jitterBuffer);
+  }
+
+  private clearPlaybackStartTimer() {
+    if (this.playbackStartTimer) {
+      clearTimeout(this.playbackStartTimer);
+      this.playbackStartTimer = null;
+    }
+  }
+
+  /**
+   * Move TTS from the jitter buffer to the AudioContext, a block at a time,
+   * keeping LOOKAHEAD_BLOCKS scheduled. Called on arrival and as blocks end.
+   */
+  private playNextChunk() {
+    const audioContext = this.getOrCreateAudioContext();
+    if (!audioContext) return;
+    const jitterBuffer = this.jitterBuffer;
+
+    // Wait for the target delay before starting (everything once `stop` arrived)
+    if (!this.isPlayingAudio && !this.isStopReceived) {
+      const now = performance.now();
+      if (!jitterBuffer.isReady(now)) {
+        if (jitterBuffer.bufferedSamples > 0 && !this.playbackStartTimer) {
+          this.playbackStartTimer = setTimeout(() => {
+            this.playbackStartTimer = null;
+            this.playNextChunk();
+          }, jitterBuffer.readyInMs(now));
+        }
+        return;
+      }
+    }
+    this.clearPlaybackStartTimer();
+
+    const blockSeconds = jitterBuffer.blockSamples / SAMPLE_RATE;
+    for (;;) {
+      const aheadSeconds = this.isPlayingAudio
+        ? Math.max(0, this.nextPlayTime - audioContext.currentTime)
+        : 0;
+      if (aheadSeconds >= LOOKAHEAD_BLOCKS * blockSeconds) break;
+
+      // Partial blocks only when about to run dry or at the end of the stream
+      const audioData = jitterBuffer.take(
+        aheadSeconds < blockSeconds || this.isStopReceived
+      );
+      if (!audioData) break;
+
+      // Create a new audio buffer with our desired specifications
+      const audioBuffer = audioContext.createBuffer(
+        1,
+        audioData.length,
+        SAMPLE_RATE
+      );
+
+      // Copy our audio data into the buffer
+      audioBuffer.getChannelData(0).set(audioData);
+
+      // Create a new audio source node for playing this buffer
+      const source = audioContext.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(this.getPlaybackBus(audioContext));
+
+      // Initialize the AudioMotionAnalyzer with the AudioBufferSourceNode
+      this.initializeVisualizer(source);
+
+      // Schedule slightly ahead to avoid gap/tick artifacts
+      const safetyOffset = 0.02;
+      const earliestStart = audioContext.currentTime + safetyOffset;
+      const startTime = Math.max(earliestStart, this.nextPlayTime || 0);
+      // Gap after the previous block, or after a mid-turn drain (a stall)
+      const previousEnd = this.nextPlayTime || this.playbackDrainedAt;
+      this.playbackDrainedAt = 0;
+      this.stats.agentAudio(
+        (startTime - audioContext.currentTime) * 1000,
+        previousEnd ? (earliestStart - previousEnd) * 1000 : 0
+      );
+
+      this.isPlayingAudio = true;
+      this.syncTtsPlaying();
+      this.setPlaying(true);
+      this.scheduledSources.add(source);
+
+      source.onended = () => {
+        this.scheduledSources.delete(source);
+        // Blocks are short; don't let the analyzer accumulate inputs
+        this.analyzer?.disconnectInput(source);
+
+        if (
+          this.scheduledSources.size === 0 &&
+          this.jitterBuffer.bufferedSamples === 0
+        ) {
+          this.onPlaybackDrained();
+        } else {
+          this.playNextChunk();
+        }
+      };
+
+      source.start(startTime);
+      this.nextPlayTime = startTime + audioBuffer.duration;
+      this.recordAudio('agent', audioData, SAMPLE_RATE, startTime);
+    }
+  }
+
+  private onPlaybackDrained() {
+    this.isPlayingAudio = false;
+    // The next block starts a new run; it's an underrun unless the turn ended
+    this.playbackDrainedAt =
+      this.isStopReceived || this.agentTurnEnded ? 0 : this.nextPlayTime;
+    this.agentTurnEnded = false;
+    this.nextPlayTime = 0;
+    this.setPlaying(false);
+    this.syncTtsPlaying();
+
+    if (this.isStopReceived) {
+      this.websocket?.close();
+    }
+  }
+
+  /** Stop every scheduled source now and drop queued TTS. */
+  private stopPlayback() {
+    // Scheduled TTS that won't be heard shouldn't be in the recording
+    if (this.audioContext) {
+      this.recorder?.truncateAgent(this.audioContext.currentTime);
+    }
+    this.clearPlaybackStartTimer();
+    this.jitterBuffer.clear();
+    this.playbackResampler?.reset();
+    this.wavFormat = null;
+    this.decodeGeneration++;
+    this.decoder?.worker.postMessage({ type: 'reset' });
+    this.scheduledSources.forEach((source) => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Not started yet in some browsers
+      }
+      source.disconnect();
+      this.analyzer?.disconnectInput(source);
+    });
+    this.scheduledSources.clear();
+    this.nextPlayTime = 0;
+    this.playbackDrainedAt = 0;
+  }
+
+  /** Hard-stop TTS for a local (VAD) or server barge. */
+  private bargeIn(source: WebVoiceCloseSource) {
+    const wasPlaying = this.isPlayingAudio;
+    this.stopPlayback();
+    if (wasPlaying) {
+      this.onPlaybackDrained();
+    }
+
+    if (source === 'client') {
+      // Drop late TTS from the interrupted turn until the user stops speaking
+      this.suppressPlayback = true;
+      this.pendingBarge = !this.send({ event: 'barge' });
+    }
+    this.logger.info('Barged', source);
+    this.emit('bargeIn', source);
+  }
+
+  private processAudioMessage(message: WebVoiceServerMessage) {
+    try {
+      if (message.event === 'media' && message.media?.payload) {
+        const { payload } = message.media;
+        this.markChunkReceived(base64ByteLength(payload));
+        this.backendSampleRate = message.sample_rate ?? SAMPLE_RATE;
+        this.processAudioChunk(
+          payload,
+          message.encoding ?? this.options.inputCodec ?? 'pcm16'
+        );
+      } else if (['barge', 'BARGE'].includes(message.event)) {
+        this.bargeIn('server');
+      } else if (message.event === 'EOC') {
+        this.logger.info('EOC event occurred');
+        this.playbackDrainedAt = 0;
+        this.agentTurnEnded =
+          this.isPlayingAudio || this.jitterBuffer.bufferedSamples > 0;
+        this.send({ event: 'EOC' });
+        this.setConversationState('ended');
+      } else if (message.event === 'stop') {
+        this.logger.info('Stop event occurred');
+        if (this.websocket?.readyState === WebSocket.OPEN) {
+          this.isStopReceived = true;
+        }
+        if (this.jitterBuffer.bufferedSamples > 0) {
+          this.playNextChunk();
+        }
+      } else {
+        this.logger.info('Unhandled message type:', message);
+      }
+    } catch (error) {
+      this.logger.error('Error processing audio message:', error);
+    }
+  }
+
+  // Server events outside the protocol go to onServerEvent handlers and `message`
+  private processCustomMessage(message: IWebVoiceCustomMessage) {
+    if (this.pendingStartAck?.event === message.event) {
+      this.pendingStartAck.settle(message);
+    }
+    const { events = DEFAULT_TRANSCRIPT_EVENTS } =
+      this.options.transcript ?? {};
+    if (events.includes(message.event)) {
+      this.processTranscriptMessage(message);
+    }
+
+    const handlers = this.serverEventHandlers.get(message.event);
+    if (!handlers?.size && !this.hasListeners('message')) {
+      this.logger.info('Unhandled message type:', message);
+    }
+    handlers?.forEach((handler) => handler(message));
+    this.emit('message', message);
+  }
+
+  private processTranscriptMessage(message: IWebVoiceCustomMessage) {
+    const { parse = parseTranscriptMessage } = this.options.transcript ?? {};
+    const update = parse(message);
+    if (!update) {
+      this.reportError(
+        new WebVoiceProtocolError('Malformed transcript event', message)
+      );
+      return;
+    }
+
+    const entry: IWebVoiceTranscriptEntry = {
+      ...update,
+      id: this.transcriptId++,
+      timestamp: Date.now(),
+    };
+
+    if (!entry.isFinal) {
+      this.partial = entry;
+      this.emit('partialTranscript', entry);
+      // Without VAD, user hypotheses are the only sign the user is talking
+      if (entry.role === 'user' && !this.vadOptions && !this.playing) {
+        this.setConversationState('userSpeaking');
+      }
+      return;
+    }
+
+    this.transcriptEntries.push(entry);
+    if (this.partial?.role === entry.role) {
+      this.partial = null;
+      this.emit('partialTranscript', null);
+    }
+    this.emit('transcript', entry, this.transcript);
+
+    // The transcript is the only end-of-turn signal without VAD or push-to-talk
+    if (
+      entry.role === 'user' &&
+      !this.vadOptions &&
+      this.options.micMode !== 'pushToTalk'
+    ) {
+      this.stats.speechEnded();
+    }
+
+    if (entry.role === 'user' && !this.userSpeaking && !this.playing) {
+      this.setConversationState('agentThinking');
+    }
+  }
+
+  private clearTranscript() {
+    this.transcriptEntries = [];
+    this.partial = null;
+    this.transcriptId = 0;
+  }
+
+  private cleanup(source: WebVoiceCloseSource) {
+    if (this.isCleanedUp) return;
+    this.isCleanedUp = true;
+
+    // Stop recording first
+    this.stopRecording();
+
+    this.clearReconnect();
+    this.pendingStartAck?.settle(null);
+    this.sessionStarted = false;
+    this.pendingBarge = false;
+    this.authorizing = false;
+    this.connectAttempt++;
+
+    this.stopPing();
+    this.stopStats();
+
+    // Clean up WebSocket with additional state check
+    if (this.websocket) {
+      if (
+        this.websocket.readyState === WebSocket.OPEN ||
+        this.websocket.readyState === WebSocket.CONNECTING
+      ) {
+        this.websocket.close();
+      }
+      this.websocket = null;
+    }
+
+    this.releaseAudio();
+
+    // Reset all buffers and states
+    this.clearPlaybackStartTimer();
+    this.jitterBuffer = this.createJitterBuffer();
+    this.mediaSequence = 0;
+    this.playbackResampler = null;
+    this.wavFormat = null;
+    this.isAudioNodesConnected = false;
+    this.isPlayingAudio = false;
+    this.isStopReceived = false;
+    this.suppressPlayback = false;
+    this.nextPlayTime = 0;
+    this.playbackDrainedAt = 0;
+    this.agentTurnEnded = false;
+    this.talking = false;
+    this.setPlaying(false);
+    this.setConnected(false);
+    this.setConversationState('ended');
+
+    this.emit('close', source);
+  }
+
+  /** Release analyzer, encoder, AudioContext, playback source and mic tracks. */
+  private releaseAudio() {
+    this.encoder?.close?.();
+    this.encoder = null;
+    this.releaseDecoder();
+
+    if (this.analyzer) {
+      this.analyzer.stop();
+      this.analyzer.destroy();
+      this.analyzer = null;
+    }
+
+    this.recorder?.finish(this.audioContext?.currentTime);
+
+    // Clean up audio context
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+      this.workletContext = null;
+    }
+
+    // Clean up scheduled playback
+    this.stopPlayback();
+    this.releasePlaybackBus();
+
+    navigator.mediaDevices?.removeEventListener?.(
+      'devicechange',
+      this.handleDeviceChange
+    );
+    this.streamSourceNode = null;
+    this.inputChain = [];
+    this.inputNode = null;
+
+    // Clean up media stream - Enhanced cleanup
+    if (this.stream) {
+      const stream = this.stream;
+      stream.getTracks().forEach((track) => {
+        track.stop(); // Stop the track
+        track.enabled = false; // Disable the track
+        stream.removeTrack(track); // Remove from stream
+      });
+      this.stream = undefined;
+    }
+  }
+
+  private setConnected(connected: boolean) {
+    this.connected = connected;
+  }
+
+  private setPlaying(playing: boolean) {
+    if (this.playing === playing) return;
+    this.playing = playing;
+    this.emit('playing', playing);
+
+    if (playing) {
+      this.setConversationState('agentSpeaking');
+    } else if (this.state === 'agentSpeaking') {
+      this.setConversationState(
+        this.userSpeaking ? 'userSpeaking' : 'listening'
+      );
+    }
+  }
+
+  private setUserSpeaking(speaking: boolean) {
+    if (this.userSpeaking === speaking) return;
+    this.userSpeaking = speaking;
+    this.emit(speaking ? 'speechStart' : 'speechEnd');
+
+    if (!speaking) {
+      this.suppressPlayback = false;
+      this.stats.speechEnded();
+    } else if (this.options.bargeIn && this.isPlayingAudio) {
+      this.bargeIn('client');
+    }
+
+    // Without barge-in, TTS keeps playing over the user
+    if (speaking && !this.playing) {
+      this.setConversationState('userSpeaking');
+    } else if (!speaking && this.state === 'userSpeaking') {
+      this.setConversationState('agentThinking');
+    }
+  }
+
+  // 'ended' only leaves through a new connection
+  private setConversationState(state: WebVoiceConversationState) {
+    if (this.state === state) return;
+    if (this.state === 'ended' && state !== 'connecting') return;
+    this.state = state;
+    this.emit('conversationState', state);
+  }
+
+  // Playback and VAD keep running while reconnecting, so callers may send
+  // with no open socket; resendSessionState() catches the server up
+  private send(message: WebVoiceClientMessage | IWebVoiceCustomMessage) {
+    if (this.websocket?.readyState !== WebSocket.OPEN) return false;
+    this.websocket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private sendIfOpen(message: WebVoiceClientMessage | IWebVoiceCustomMessage) {
+    if (!this.send(message)) {
+      this.logger.error('Cannot send', message.event, '- socket is not open');
+      return false;
+    }
+    return true;
+  }
+
+  /** Tell the server whether TTS is being heard, once per change. */
+  private syncTtsPlaying() {
+    const playing = this.isPlayingAudio;
+    if (!this.sessionStarted || playing === this.lastSentTTSEvent) return;
+    if (this.send({ event: 'TTS_PLAYING', media: { tts_playing: playing } })) {
+      this.lastSentTTSEvent = playing;
+    }
+  }
+
+  // Control state that changed while the socket was down, for a new session
+  private resendSessionState() {
+    // Only while the user is still talking over the interrupted turn
+    if (this.pendingBarge && this.suppressPlayback) {
+      this.send({ event: 'barge' });
+    }
+    this.pendingBarge = false;
+    this.syncTtsPlaying();
+  }
+
+  private reportError(error: unknown) {
+    this.emit('error', error as Error);
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * webVoiceDsp — G.711 / PCM16 codecs, base64, WAV decoding and resampling
+ *
+ * The one copy of this code. The main thread imports it; the capture worklet
+ * and the decode worker can't import modules, so scripts/embed-worklet.mjs
+ * compiles it into their sources. Keep it free of imports and of globals
+ * those scopes lack (no DOM, no Blob, no btoa/atob in the worklet).
+ */
+
+/** Float32 [-1, 1] → Int16 sample, truncated toward zero like an Int16Array store. */
+export const floatToInt16 = (sample: number): number => {
+  const s = Math.max(-1, Math.min(1, sample));
+  return Math.trunc(s < 0 ? s * 0x8000 : s * 0x7fff);
+};
+
+/** Float32 [-1, 1] → Int16 PCM for encoding. */
+export function floatTo16BitPCM(float32Array: Float32Array): Int16Array {
+  const int16Array = new Int16Array(float32Array.length);
+  for (let i = 0; i < float32Array.length; i++) {
+    int16Array[i] = floatToInt16(float32Array[i]);
+  }
+  return int16Array;
+}
+
+export const convertPCMDataToFloat32 = (pcm16Data: Int16Array) => {
+  const float32Data = new Float32Array(pcm16Data.length);
+  for (let i = 0; i < pcm16Data.length; i++) {
+    float32Data[i] = pcm16Data[i] / (pcm16Data[i] < 0 ? 0x8000 : 0x7fff);
+  }
+
+  return float32Data;
+};
+
+/** One Int16 sample → µ-law byte. */
+export const encodeMuLawSample = (pcm: number): number => {
+  const BIAS = 0x84;
+  const CLIP = 32635;
+
+  let sample = pcm;
+  const sign = (sample >> 8) & 0x80;
+  if (sign) sample = -sample;
+  // Clip sample to max value
+  if (sample > CLIP) sample = CLIP;
+  sample += BIAS;
+
+  let exponent = 7;
+  for (; exponent > 0; exponent--) {
+    if (sample & 0x4000) break;
+    sample <<= 1;
+  }
+  const mantissa = (sample >> 9) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+};
+
+/** G.711 A-law segment end points (13-bit magnitude). */
+const ALAW_SEGMENT_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+/** One Int16 sample → A-law byte. */
+export const encodeALawSample = (pcm: number): number => {
+  // A-law works on 13-bit samples
+  let sample = pcm >> 3;
+  let mask;
+  if (sample >= 0) {
+    mask = 0xd5;
+  } else {
+    mask = 0x55;
+    sample = -sample - 1;
+  }
+
+  // Find the segment
+  let segment = 0;
+  while (segment < 8 && sample > ALAW_SEGMENT_END[segment]) {
+    segment++;
+  }
+  // Out of range, clip to max
+  if (segment >= 8) return 0x7f ^ mask;
+
+  const aLawByte =
+    (segment << 4) | ((sample >> (segment < 2 ? 1 : segment)) & 0x0f);
+  return aLawByte ^ mask;
+};
+
+export function linearToMuLaw(pcm: Int16Array): Uint8Array {
+  const muLawCompressed = new Uint8Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    muLawCompressed[i] = encodeMuLawSample(pcm[i]);
+  }
+  return muLawCompressed;
+}
+
+export function linearToALaw(pcm: Int16Array): Uint8Array {
+  const aLawCompressed = new Uint8Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    aLawCompressed[i] = encodeALawSample(pcm[i]);
+  }
+  return aLawCompressed;
+}
+
+export function muLawToLinear(muLaw: Uint8Array): Int16Array {
+  const BIAS = 0x84;
+  const pcm = new Int16Array(muLaw.length);
+
+  for (let i = 0; i < muLaw.length; i++) {
+    // µ-law bytes are stored inverted
+    const ulawByte = ~muLaw[i] & 0xff;
+    const sign = ulawByte & 0x80;
+    const exponent = (ulawByte >> 4) & 0x07;
+    const mantissa = ulawByte & 0x0f;
+
+    const sample = (((mantissa << 3) + BIAS) << exponent) - BIAS;
+    pcm[i] = sign ? -sample : sample;
+  }
+
+  return pcm;
+}
+
+export function aLawToLinear(aLaw: Uint8Array): Int16Array {
+  const pcm = new Int16Array(aLaw.length);
+
+  for (let i = 0; i < aLaw.length; i++) {
+    const aLawByte = aLaw[i] ^ 0x55;
+    const segment = (aLawByte & 0x70) >> 4;
+
+    let sample = (aLawByte & 0x0f) << 4;
+    if (segment === 0) {
+      sample += 8;
+    } else {
+      sample = (sample + 0x108) << (segment - 1);
+    }
+    pcm[i] = aLawByte & 0x80 ? sample : -sample;
+  }
+
+  return pcm;
+}
+
+/** Int16 PCM → little-endian bytes. */
+export function pcm16ToBytes(pcm: Int16Array): Uint8Array {
+  const bytes = new Uint8Array(pcm.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < pcm.length; i++) {
+    view.setInt16(i * 2, pcm[i], true);
+  }
+  return bytes;
+}
+
+/** Float32 chunk → bytes in a built-in codec (a Uint8Array over its own buffer). */
+export const encodeAudioChunk = (
+  samples: Float32Array,
+  encoding: 'mulaw' | 'alaw' | 'pcm16'
+): Uint8Array => {
+  if (encoding === 'pcm16') {
+    const bytes = new Uint8Array(samples.length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < samples.length; i++) {
+      view.setInt16(i * 2, floatToInt16(samples[i]), true);
+    }
+    return bytes;
+  }
+  const encode = encoding === 'alaw' ? encodeALawSample : encodeMuLawSample;
+  const bytes = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    bytes[i] = encode(floatToInt16(samples[i]));
+  }
+  return bytes;
+};
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Int8Array(128).fill(-1);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_VALUES[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+/** Bytes → base64, for JSON `media` payloads. */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const chars: string[] = [];
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    chars.push(
+      BASE64_ALPHABET[n >> 18] +
+        BASE64_ALPHABET[(n >> 12) & 63] +
+        BASE64_ALPHABET[(n >> 6) & 63] +
+        BASE64_ALPHABET[n & 63]
+    );
+  }
+  const rest = bytes.length - i;
+  if (rest > 0) {
+    const n = (bytes[i] << 16) | (rest === 2 ? bytes[i + 1] << 8 : 0);
+    chars.push(
+      BASE64_ALPHABET[n >> 18] +
+        BASE64_ALPHABET[(n >> 12) & 63] +
+        (rest === 2 ? BASE64_ALPHABET[(n >> 6) & 63] : '=') +
+        '='
+    );
+  }
+  return chars.join('');
+};
+
+/** base64 (padding optional) → bytes. Throws on characters outside the alphabet. */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  let length = base64.length;
+  while (length > 0 && base64[length - 1] === '=') length--;
+  const bytes = new Uint8Array(Math.floor((length * 3) / 4));
+
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (let i = 0; i < length; i++) {
+    const code = base64.charCodeAt(i);
+    const digit = code < 128 ? BASE64_VALUES[code] : -1;
+    if (digit < 0) throw new Error('Invalid base64 payload');
+    value = (value << 6) | digit;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (value >> bits) & 0xff;
+    }
+  }
+  return bytes;
+};
+
+/** WAVE `fmt ` AudioFormat codes. */
+export const WAV_FORMAT = {
+  pcm: 1,
+  float: 3,
+  alaw: 6,
+  mulaw: 7,
+} as const;
+
+const readChunkId = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+/** Format described by (or written into) a WAV header. */
+export interface IWavFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  /** WAVE AudioFormat code (1 = PCM, 3 = float, 6 = A-law, 7 = µ-law). */
+  audioFormat: number;
+}
+
+/**
+ * Parse a RIFF/WAVE header, walking chunks to find `fmt ` and `data`.
+ * Returns null when `bytes` does not start with a WAV header.
+ */
+export const parseWavHeader = (
+  bytes: Uint8Array
+): { format: IWavFormat; data: Uint8Array } | null => {
+  if (bytes.length < 12) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (readChunkId(view, 0) !== 'RIFF' || readChunkId(view, 8) !== 'WAVE') {
+    return null;
+  }
+
+  let format: IWavFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = readChunkId(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      if (!format) break;
+      // Streamed WAVs often carry a placeholder size; clamp to what we have
+      const end = Math.min(bytes.length, body + size);
+      return { format, data: bytes.subarray(body, end) };
+    }
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('Malformed WAV payload: missing fmt or data chunk');
+};
+
+/** Mix interleaved channels down to mono. */
+const downmix = (interleaved: Float32Array, channels: number) => {
+  if (channels <= 1) return interleaved;
+  const mono = new Float32Array(Math.floor(interleaved.length / channels));
+  for (let i = 0; i < mono.length; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += interleaved[i * channels + c];
+    }
+    mono[i] = sum / channels;
+  }
+  return mono;
+};
+
+/** 16-bit PCM bytes → Int16 in the given byte order (odd trailing byte ignored). */
+const bytesToPCM16 = (bytes: Uint8Array, littleEndian: boolean) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pcm = new Int16Array(Math.floor(bytes.length / 2));
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = view.getInt16(i * 2, littleEndian);
+  }
+  return pcm;
+};
+
+/** WAV sample data in `format` → mono Float32. */
+const decodeWavData = (data: Uint8Array, format: IWavFormat) => {
+  let interleaved: Float32Array;
+  if (format.audioFormat === WAV_FORMAT.pcm && format.bitsPerSample === 16) {
+    interleaved = convertPCMDataToFloat32(bytesToPCM16(data, true));
+  } else if (format.audioFormat === WAV_FORMAT.mulaw) {
+    interleaved = convertPCMDataToFloat32(muLawToLinear(data));
+  } else if (format.audioFormat === WAV_FORMAT.alaw) {
+    interleaved = convertPCMDataToFloat32(aLawToLinear(data));
+  } else if (
+    format.audioFormat === WAV_FORMAT.float &&
+    format.bitsPerSample === 32
+  ) {
+    interleaved = new Float32Array(
+      data.buffer.slice(
+        data.byteOffset,
+        data.byteOffset + data.length - (data.length % 4)
+      )
+    );
+  } else {
+    throw new Error(
+      `Unsupported WAV format: AudioFormat ${format.audioFormat}, ${format.bitsPerSample}-bit`
+    );
+  }
+
+  return downmix(interleaved, format.channels);
+};
+
+// A streamed WAV has its header in the first chunk only; later chunks are
+// bare data in that format (`streamFormat`, from the previous chunk)
+const decodeWav = (bytes: Uint8Array, streamFormat: IWavFormat | null) => {
+  const wav = parseWavHeader(bytes);
+  const format = wav?.format ?? streamFormat;
+  if (!format) throw new Error('Headerless WAV chunk before any WAV header');
+  return {
+    samples: decodeWavData(wav?.data ?? bytes, format),
+    sampleRate: format.sampleRate,
+    wavFormat: format,
+  };
+};
+
+/**
+ * Decode an inbound TTS payload (a WebVoiceInputEncoding) to mono Float32.
+ * `sampleRate` and `wavFormat` are only set for WAV; pass `wavFormat` back
+ * with the stream's next chunk, which may have no header.
+ * Throws on unknown encodings rather than playing noise.
+ */
+export const decodeAudioPayload = (
+  bytes: Uint8Array,
+  encoding: string,
+  wavFormat: IWavFormat | null = null
+): { samples: Float32Array; sampleRate?: number; wavFormat?: IWavFormat } => {
+  switch (encoding) {
+    case 'pcm16':
+    case 'pcm16le':
+      return { samples: convertPCMDataToFloat32(bytesToPCM16(bytes, true)) };
+    case 'pcm16be':
+      return { samples: convertPCMDataToFloat32(bytesToPCM16(bytes, false)) };
+    case 'mulaw':
+      return { samples: convertPCMDataToFloat32(muLawToLinear(bytes)) };
+    case 'alaw':
+      return { samples: convertPCMDataToFloat32(aLawToLinear(bytes)) };
+    case 'wav':
+      return decodeWav(bytes, wavFormat);
+    default:
+      throw new Error(`Unsupported input encoding: ${encoding}`);
+  }
+};
+
+/**
+ * Streaming windowed-sinc resampler (polyphase table, Blackman window).
+ * When downsampling, the cutoff sits just below the output Nyquist so the
+ * result is anti-aliased. Keeps filter history between calls, so feed it
+ * consecutive chunks of one stream; output lags input by `zeroCrossings`
+ * input samples (scaled by the ratio when downsampling).
+ */
+export class StreamingResampler {
+  readonly inputRate: number;
+  readonly outputRate: number;
+
+  private readonly step: number;
+  private readonly halfWidth: number;
+  private readonly taps: number;
+  private readonly phases: number;
+  private readonly kernel: Float32Array;
+  private history: Float32Array;
+  private time: number;
+
+  constructor(
+    inputRate: number,
+    outputRate: number,
+    zeroCrossings = 8,
+    phases = 128
+  ) {
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+    // Input samples per output sample
+    this.step = inputRate / outputRate;
+    // Cutoff as a fraction of the input Nyquist, with a little transition band
+    const cutoff = Math.min(1, outputRate / inputRate) * 0.95;
+    this.halfWidth = Math.ceil(zeroCrossings / cutoff);
+    this.taps = this.halfWidth * 2;
+    this.phases = phases;
+    this.kernel = new Float32Array((phases + 1) * this.taps);
+
+    for (let p = 0; p <= phases; p++) {
+      const base = p * this.taps;
+      let sum = 0;
+      for (let j = 0; j < this.taps; j++) {
+        // Distance from the output position to input tap j
+        const distance = p / phases - (j - this.halfWidth + 1);
+        const x = distance * cutoff;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const w = (Math.PI * distance) / this.halfWidth;
+        const window = 0.42 + 0.5 * Math.cos(w) + 0.08 * Math.cos(2 * w);
+        this.kernel[base + j] = sinc * Math.max(0, window);
+        sum += this.kernel[base + j];
+      }
+      // Normalise each phase to unity DC gain
+      for (let j = 0; j < this.taps; j++) {
+        this.kernel[base + j] /= sum;
+      }
+    }
+
+    this.history = new Float32Array(this.taps);
+    this.time = this.taps;
+  }
+
+  /** Resample the next chunk of the stream. */
+  process(input: Float32Array): Float32Array {
+    const buffer = new Float32Array(this.taps + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.taps);
+
+    const output = new Float32Array(Math.ceil(buffer.length / this.step) + 1);
+    let count = 0;
+    let time = this.time;
+
+    while (Math.floor(time) + this.halfWidth < buffer.length) {
+      const index = Math.floor(time);
+      const phase = Math.round((time - index) * this.phases);
+      const base = phase * this.taps;
+      const start = index - this.halfWidth + 1;
+
+      let acc = 0;
+      for (let j = 0; j < this.taps; j++) {
+        acc += buffer[start + j] * this.kernel[base + j];
+      }
+      output[count++] = acc;
+      time += this.step;
+    }
+
+    // Keep the last `taps` samples as history for the next chunk
+    const consumed = buffer.length - this.taps;
+    this.history = buffer.slice(consumed);
+    this.time = time - consumed;
+
+    return output.slice(0, count);
+  }
+
+  /** Input samples the filter needs beyond an output position. */
+  get lookahead(): number {
+    return this.halfWidth;
+  }
+
+  /** Forget history (e.g. after a barge or a new utterance). */
+  reset(): void {
+    this.history.fill(0);
+    this.time = this.taps;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * webVoiceEmitter — Minimal typed event emitter
+ *
+ * Base class for WebVoiceClient; no DOM or Node dependencies so it runs in
+ * browsers, Web Workers and tests alike.
+ */
+
+/** Map of event name → listener signature (interfaces welcome). */
+export type WebVoiceEventMap<T> = {
+  [K in keyof T]: (...args: any[]) => void;
+};
+
+export class WebVoiceEmitter<TEvents extends WebVoiceEventMap<TEvents>> {
+  private listeners: { [K in keyof TEvents]?: Set<TEvents[K]> } = {};
+
+  /** Subscribe to an event. Returns an unsubscribe function. */
+  on<K extends keyof TEvents>(event: K, listener: TEvents[K]): () => void {
+    (this.listeners[event] ??= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /** Remove a listener added with `on`. */
+  off<K extends keyof TEvents>(event: K, listener: TEvents[K]): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /** Remove all listeners (for one event, or every event when omitted). */
+  removeAllListeners(event?: keyof TEvents): void {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+  }
+
+  protected hasListeners(event: keyof TEvents): boolean {
+    return !!this.listeners[event]?.size;
+  }
+
+  protected emit<K extends keyof TEvents>(
+    event: K,
+    ...args: Parameters<TEvents[K]>
+  ): void {
+    this.listeners[event]?.forEach((listener) => listener(...args));
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * webVoiceFrames — Binary media frames for `transport: 'binary'`
+ *
+ * Media travels as one WebSocket binary message per chunk: a fixed 16-byte
+ * big-endian header followed by the encoded audio. Control events stay JSON.
+ *
+ *   offset  size  field
+ *   0       1     version (1)
+ *   1       1     codec id (see MEDIA_FRAME_CODECS)
+ *   2       2     reserved (0)
+ *   4       4     sequence number (uint32, wraps)
+ *   8       4     sample rate (Hz)
+ *   12      4     timestamp (ms, uint32, wraps)
+ *   16      …     payload
+ */
+
+import type { IWebVoiceMediaFrameHeader } from './webVoice';
+
+export const MEDIA_FRAME_VERSION = 1;
+export const MEDIA_FRAME_HEADER_SIZE = 16;
+
+/** Codec ids on the wire; 255 means "as announced in `start`" (custom encoders). */
+export const MEDIA_FRAME_CODECS: Record<string, number> = {
+  pcm16: 0,
+  pcm16le: 0,
+  mulaw: 1,
+  alaw: 2,
+  opus: 3,
+  pcm16be: 4,
+  wav: 5,
+};
+const CUSTOM_CODEC_ID = 255;
+
+const codecFromId = (id: number) =>
+  Object.keys(MEDIA_FRAME_CODECS).find(
+    (codec) => MEDIA_FRAME_CODECS[codec] === id
+  );
+
+/** Header + payload → ArrayBuffer ready for `WebSocket.send`. */
+export const encodeMediaFrame = (
+  { sequence, sampleRate, timestamp, codec }: IWebVoiceMediaFrameHeader,
+  payload: Uint8Array
+): ArrayBuffer => {
+  const frame = new Uint8Array(MEDIA_FRAME_HEADER_SIZE + payload.length);
+  const view = new DataView(frame.buffer);
+
+  view.setUint8(0, MEDIA_FRAME_VERSION);
+  view.setUint8(1, MEDIA_FRAME_CODECS[codec] ?? CUSTOM_CODEC_ID);
+  view.setUint16(2, 0);
+  view.setUint32(4, sequence >>> 0);
+  view.setUint32(8, sampleRate);
+  view.setUint32(12, Math.round(timestamp) >>> 0);
+  frame.set(payload, MEDIA_FRAME_HEADER_SIZE);
+
+  return frame.buffer;
+};
+
+/**
+ * ArrayBuffer → header + payload. `codec` is undefined for custom (255) or
+ * unknown ids. Throws on short frames or unknown versions.
+ */
+export const decodeMediaFrame = (
+  buffer: ArrayBuffer
+): { header: Partial<IWebVoiceMediaFrameHeader>; payload: Uint8Array } => {
+  if (buffer.byteLength < MEDIA_FRAME_HEADER_SIZE) {
+    throw new Error(`Media frame too short: ${buffer.byteLength} bytes`);
+  }
+  const view = new DataView(buffer);
+  const version = view.getUint8(0);
+  if (version !== MEDIA_FRAME_VERSION) {
+    throw new Error(`Unsupported media frame version: ${version}`);
+  }
+
+  return {
+    header: {
+      codec: codecFromId(view.getUint8(1)),
+      sequence: view.getUint32(4),
+      sampleRate: view.getUint32(8),
+      timestamp: view.getUint32(12),
+    },
+    payload: new Uint8Array(buffer, MEDIA_FRAME_HEADER_SIZE),
+  };
+};
@@ -0,0 +1,209 @@
+/**
+ * webVoiceJitterBuffer — Adaptive playout buffer for inbound TTS
+ *
+ * Decoded audio is held until the target delay is queued (or the oldest audio
+ * has waited that long), then handed out in small blocks. The target follows
+ * measured arrival lateness between minDelayMs and maxDelayMs. Blocks are
+ * faded out where playback is about to run dry and faded back in after it;
+ * with maxDelayMs, excess delay is dropped with a crossfade across the cut.
+ */
+
+import type { IWebVoiceJitterBufferOptions } from './webVoice';
+
+/** Defaults for IWebVoiceJitterBufferOptions (maxDelayMs has none). */
+const DEFAULT_JITTER_BUFFER = {
+  minDelayMs: 60,
+  targetDelayMs: 200,
+  blockMs: 40,
+  crossfadeMs: 10,
+};
+/** Ceiling for the adaptive target when maxDelayMs is not set. */
+const MAX_TARGET_MS = 1_000;
+/** Target as a multiple of smoothed lateness. */
+const JITTER_MARGIN = 2;
+/** Lateness smoothing: react quickly to late chunks, relax slowly. */
+const JITTER_ATTACK = 1 / 4;
+const JITTER_DECAY = 1 / 64;
+
+type FadeDirection = 'in' | 'out';
+
+const applyFade = (
+  block: Float32Array,
+  length: number,
+  direction: FadeDirection
+) => {
+  const count = Math.min(length, block.length);
+  const offset = direction === 'in' ? 0 : block.length - count;
+  for (let i = 0; i < count; i++) {
+    const gain = (i + 1) / (count + 1);
+    block[offset + i] *= direction === 'in' ? gain : 1 - gain;
+  }
+};
+
+export class WebVoiceJitterBuffer {
+  private readonly sampleRate: number;
+  private readonly minDelayMs: number;
+  private readonly maxDelayMs?: number;
+  private readonly blockSize: number;
+  private readonly fadeSize: number;
+
+  private chunks: Float32Array[] = [];
+  private queued = 0;
+  /** Smoothed lateness of arrivals (ms); starts where the target is targetDelayMs. */
+  private jitter: number;
+  private lastArrival = 0;
+  private lastDurationMs = 0;
+  private firstQueuedAt = 0;
+  private fadeInNext = true;
+
+  constructor(sampleRate: number, options: IWebVoiceJitterBufferOptions = {}) {
+    const { minDelayMs, targetDelayMs, blockMs, crossfadeMs } = {
+      ...DEFAULT_JITTER_BUFFER,
+      ...options,
+    };
+    this.sampleRate = sampleRate;
+    this.minDelayMs = minDelayMs;
+    this.maxDelayMs = options.maxDelayMs;
+    this.blockSize = Math.max(1, this.toSamples(blockMs));
+    this.fadeSize = this.toSamples(crossfadeMs);
+    this.jitter = targetDelayMs / JITTER_MARGIN;
+  }
+
+  /** Samples queued and not yet handed out. */
+  get bufferedSamples(): number {
+    return this.queued;
+  }
+
+  get blockSamples(): number {
+    return this.blockSize;
+  }
+
+  /** Current target delay (ms). */
+  get targetMs(): number {
+    return Math.min(
+      Math.max(JITTER_MARGIN * this.jitter, this.minDelayMs),
+      this.maxDelayMs ?? MAX_TARGET_MS
+    );
+  }
+
+  /**
+   * Queue decoded audio that arrived at `now` (ms). Lateness is measured only
+   * within a stream, i.e. while `playing` or with audio already queued.
+   */
+  push(samples: Float32Array, now: number, playing: boolean): void {
+    if (samples.length === 0) return;
+
+    if (playing || this.queued > 0) {
+      const lateness = Math.max(
+        0,
+        now - this.lastArrival - this.lastDurationMs
+      );
+      const rate = lateness > this.jitter ? JITTER_ATTACK : JITTER_DECAY;
+      this.jitter += (lateness - this.jitter) * rate;
+    }
+    if (this.queued === 0) {
+      this.firstQueuedAt = now;
+    }
+
+    this.chunks.push(samples);
+    this.queued += samples.length;
+    this.lastArrival = now;
+    this.lastDurationMs = (samples.length / this.sampleRate) * 1000;
+  }
+
+  /** The target is queued, or the oldest audio has waited for it (a short reply). */
+  isReady(now: number): boolean {
+    return (
+      this.queued > 0 &&
+      (this.queued >= this.toSamples(this.targetMs) ||
+        now - this.firstQueuedAt >= this.targetMs)
+    );
+  }
+
+  /** ms until isReady() turns true by waiting alone. */
+  readyInMs(now: number): number {
+    return Math.max(0, this.firstQueuedAt + this.targetMs - now);
+  }
+
+  /**
+   * Next block to schedule, or null. A partial block is only returned with
+   * `drain` (playback is about to run dry, or the stream has ended); the
+   * block that empties the buffer then fades out, and the next one fades in.
+   */
+  take(drain: boolean): Float32Array | null {
+    if (this.queued === 0 || (!drain && this.queued < this.blockSize)) {
+      return null;
+    }
+
+    const block = this.read(Math.min(this.blockSize, this.queued));
+    if (this.fadeInNext) {
+      applyFade(block, this.fadeSize, 'in');
+      this.fadeInNext = false;
+    }
+    if (drain && this.queued === 0) {
+      applyFade(block, this.fadeSize, 'out');
+      this.fadeInNext = true;
+    }
+    return block;
+  }
+
+  /**
+   * With maxDelayMs: once `scheduledMs` plus the queue exceeds it, drop the
+   * oldest queued audio down to the target, crossfading across the cut.
+   * Returns the ms dropped.
+   */
+  catchUp(scheduledMs: number): number {
+    if (this.maxDelayMs === undefined) return 0;
+    const queuedMs = (this.queued / this.sampleRate) * 1000;
+    if (scheduledMs + queuedMs <= this.maxDelayMs) return 0;
+
+    const fade = this.fadeSize;
+    const keep = Math.max(this.toSamples(this.targetMs - scheduledMs), fade);
+    const drop = this.queued - keep - fade;
+    if (drop <= 0) return 0;
+
+    // `head` continues what is already scheduled; blend it into what follows the cut
+    const head = this.read(fade);
+    this.read(drop);
+    const tail = this.read(Math.min(fade, this.queued));
+    for (let i = 0; i < tail.length; i++) {
+      const gain = (i + 1) / (fade + 1);
+      head[i] = head[i] * (1 - gain) + tail[i] * gain;
+    }
+    this.chunks.unshift(head);
+    this.queued += head.length;
+
+    return ((drop + tail.length) / this.sampleRate) * 1000;
+  }
+
+  /** Drop everything queued (barge-in, teardown). */
+  clear(): void {
+    this.chunks = [];
+    this.queued = 0;
+    this.lastArrival = 0;
+    this.fadeInNext = true;
+  }
+
+  private toSamples(ms: number) {
+    return Math.round((Math.max(0, ms) * this.sampleRate) / 1000);
+  }
+
+  // Remove and return the first `count` queued samples
+  private read(count: number): Float32Array {
+    const out = new Float32Array(count);
+    let offset = 0;
+    while (offset < count) {
+      const chunk = this.chunks[0];
+      const n = Math.min(chunk.length, count - offset);
+      out.set(chunk.subarray(0, n), offset);
+      if (n === chunk.length) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(n);
+      }
+      offset += n;
+    }
+    this.queued -= count;
+    return out;
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * webVoiceMockAudio — Fake mic and Web Audio for jsdom tests
+ *
+ * installMockAudio() puts minimal stand-ins for getUserMedia, AudioContext
+ * and AudioWorkletNode on globalThis: enough for WebVoiceClient to open the
+ * mic, stream audio you supply through the capture worklet's message
+ * protocol, and "play" TTS against the wall clock. Nothing is audible;
+ * played TTS is collected instead.
+ */
+
+/** Defaults the real capture worklet also uses (see audio-processor.js). */
+const DEFAULT_CHUNK_DURATION_MS = 400;
+const CAPTURE_PROCESSOR = 'audio-processor';
+const DEFAULT_SAMPLE_RATE = 44_100;
+
+type CaptureState = 'open' | 'silence' | 'closed';
+
+export interface IMockAudioOptions {
+  /** Devices from enumerateDevices(). Default: one microphone and one speaker. */
+  devices?: Pick<MediaDeviceInfo, 'deviceId' | 'kind' | 'label' | 'groupId'>[];
+  /** Reject getUserMedia with NotAllowedError, as when permission is denied. */
+  denyMicrophone?: boolean;
+}
+
+/** A TTS buffer the client scheduled. */
+export interface IMockAudioPlayback {
+  samples: Float32Array;
+  sampleRate: number;
+  /** AudioContext time it was scheduled at (s). */
+  startTime: number;
+}
+
+class FakeAudioParam {
+  constructor(public value: number) {}
+
+  setValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+
+  setTargetAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+
+  linearRampToValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+
+  cancelScheduledValues() {
+    return this;
+  }
+}
+
+class FakeAudioNode {
+  numberOfInputs = 1;
+  numberOfOutputs = 1;
+  channelCount = 1;
+
+  constructor(readonly context: FakeAudioContext) {}
+
+  connect<T>(destination: T): T {
+    return destination;
+  }
+
+  disconnect() {}
+}
+
+class FakeMediaStreamTrack {
+  readonly kind = 'audio';
+  readonly id = Math.random().toString(36).slice(2);
+  enabled = true;
+  readyState: MediaStreamTrackState = 'live';
+  onended: (() => void) | null = null;
+
+  constructor(
+    readonly label: string,
+    private readonly deviceId: string
+  ) {}
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  getSettings() {
+    return { deviceId: this.deviceId };
+  }
+}
+
+class FakeMediaStream {
+  private tracks: FakeMediaStreamTrack[];
+
+  constructor(tracks: FakeMediaStreamTrack[] = []) {
+    this.tracks = tracks;
+  }
+
+  getTracks() {
+    return [...this.tracks];
+  }
+
+  getAudioTracks() {
+    return [...this.tracks];
+  }
+
+  removeTrack(track: FakeMediaStreamTrack) {
+    this.tracks = this.tracks.filter((t) => t !== track);
+  }
+}
+
+class FakeAudioBuffer {
+  readonly numberOfChannels: number;
+  private readonly channels: Float32Array[];
+
+  constructor(
+    numberOfChannels: number,
+    readonly length: number,
+    readonly sampleRate: number
+  ) {
+    this.numberOfChannels = numberOfChannels;
+    this.channels = Array.from(
+      { length: numberOfChannels },
+      () => new Float32Array(length)
+    );
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+class FakeBufferSource extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  start(when = 0) {
+    const { context, buffer } = this;
+    if (!buffer) return;
+    const startTime = Math.max(when, context.currentTime);
+    context.mock.played.push({
+      samples: buffer.getChannelData(0).slice(),
+      sampleRate: buffer.sampleRate,
+      startTime,
+    });
+    const endsInMs = (startTime + buffer.duration - context.currentTime) * 1000;
+    // Never early (timers round down): browsers fire `ended` after the end
+    this.timer = setTimeout(() => this.end(), Math.ceil(endsInMs) + 1);
+  }
+
+  stop() {
+    if (this.timer) this.end();
+  }
+
+  private end() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.onended?.();
+  }
+}
+
+/** Stand-in for the capture worklet: posts chunks of audio passed to speak(). */
+class FakeAudioWorkletNode extends FakeAudioNode {
+  readonly port: {
+    onmessage: ((event: { data: unknown }) => void) | null;
+    postMessage: (message: { type?: string; state?: CaptureState }) => void;
+  };
+  /** Stopped (flushed) nodes no longer take audio. */
+  detached = false;
+  private capture: CaptureState;
+  private readonly chunkSize: number;
+  private pending = new Float32Array(0);
+  private sequence = 0;
+
+  constructor(
+    context: FakeAudioContext,
+    readonly name: string,
+    options: AudioWorkletNodeOptions = {}
+  ) {
+    super(context);
+    const {
+      sampleRate = context.sampleRate,
+      targetSampleRate,
+      chunkDurationMs = DEFAULT_CHUNK_DURATION_MS,
+      capture = 'open',
+    } = options.processorOptions ?? {};
+    this.numberOfInputs = options.numberOfInputs ?? 1;
+    this.capture = capture;
+    this.chunkSize = Math.max(
+      1,
+      Math.round(((targetSampleRate || sampleRate) * chunkDurationMs) / 1000)
+    );
+
+    this.port = {
+      onmessage: null,
+      postMessage: (message) => {
+        if (message.type === 'capture' && message.state) {
+          const wasCapturing = this.capture !== 'closed';
+          this.capture = message.state;
+          if (message.state === 'closed' && wasCapturing) this.flush();
+        } else if (message.type === 'flush') {
+          this.detached = true;
+          this.flush();
+        }
+      },
+    };
+    if (name === CAPTURE_PROCESSOR) context.mock.captureNodes.push(this);
+  }
+
+  write(samples: Float32Array) {
+    if (this.capture === 'closed') return;
+    const audio =
+      this.capture === 'silence' ? new Float32Array(samples.length) : samples;
+
+    const joined = new Float32Array(this.pending.length + audio.length);
+    joined.set(this.pending);
+    joined.set(audio, this.pending.length);
+    let offset = 0;
+    for (; offset + this.chunkSize <= joined.length; offset += this.chunkSize) {
+      this.post(joined.slice(offset, offset + this.chunkSize));
+    }
+    this.pending = joined.slice(offset);
+  }
+
+  speaking(speaking: boolean) {
+    this.deliver({
+      type: 'vad',
+      speaking,
+      timestamp: this.context.currentTime,
+    });
+  }
+
+  private flush() {
+    if (this.pending.length > 0) this.post(this.pending);
+    this.pending = new Float32Array(0);
+    this.deliver({ type: 'flushed' });
+  }
+
+  private post(data: Float32Array) {
+    this.deliver({
+      type: 'audio-data',
+      data,
+      sequence: this.sequence++,
+      timestamp: this.context.currentTime,
+    });
+  }
+
+  // Asynchronous and in order, like a MessagePort
+  private deliver(data: unknown) {
+    Promise.resolve().then(() => this.port.onmessage?.({ data }));
+  }
+}
+
+class FakeAudioContext {
+  readonly sampleRate: number;
+  readonly baseLatency = 0;
+  readonly outputLatency = 0;
+  state: AudioContextState = 'running';
+  readonly destination: FakeAudioNode;
+  readonly audioWorklet = { addModule: async (_url: string) => {} };
+  private readonly startedAt = Date.now();
+
+  constructor(
+    readonly mock: WebVoiceMockAudio,
+    options: AudioContextOptions = {}
+  ) {
+    this.sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    this.destination = new FakeAudioNode(this);
+  }
+
+  get currentTime() {
+    return (Date.now() - this.startedAt) / 1000;
+  }
+
+  createGain() {
+    return Object.assign(new FakeAudioNode(this), {
+      gain: new FakeAudioParam(1),
+    });
+  }
+
+  createBiquadFilter() {
+    return Object.assign(new FakeAudioNode(this), {
+      type: 'lowpass',
+      frequency: new FakeAudioParam(350),
+      Q: new FakeAudioParam(1),
+    });
+  }
+
+  createDynamicsCompressor() {
+    return Object.assign(new FakeAudioNode(this), {
+      threshold: new FakeAudioParam(-24),
+      knee: new FakeAudioParam(30),
+      ratio: new FakeAudioParam(12),
+      attack: new FakeAudioParam(0.003),
+      release: new FakeAudioParam(0.25),
+    });
+  }
+
+  createMediaStreamSource(mediaStream: FakeMediaStream) {
+    return Object.assign(new FakeAudioNode(this), { mediaStream });
+  }
+
+  createMediaStreamDestination() {
+    return Object.assign(new FakeAudioNode(this), {
+      stream: new FakeMediaStream(),
+    });
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    return new FakeBufferSource(this);
+  }
+
+  async resume() {
+    this.state = 'running';
+  }
+
+  async suspend() {
+    this.state = 'suspended';
+  }
+
+  async close() {
+    this.state = 'closed';
+  }
+
+  async setSinkId(_sinkId: string) {}
+}
+
+const DEFAULT_DEVICES: IMockAudioOptions['devices'] = [
+  {
+    deviceId: 'default',
+    kind: 'audioinput',
+    label: 'Mock microphone',
+    groupId: 'mock',
+  },
+  {
+    deviceId: 'default',
+    kind: 'audiooutput',
+    label: 'Mock speaker',
+    groupId: 'mock',
+  },
+];
+
+export class WebVoiceMockAudio {
+  /** TTS the client scheduled for playback, in order. */
+  readonly played: IMockAudioPlayback[] = [];
+  /** Constraints of every getUserMedia call. */
+  readonly constraints: MediaStreamConstraints[] = [];
+  /** Capture worklet nodes created so far (see speak()). */
+  readonly captureNodes: FakeAudioWorkletNode[] = [];
+
+  private readonly options: IMockAudioOptions;
+  private restore: (() => void)[] = [];
+
+  constructor(options: IMockAudioOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Feed mic audio to the running capture worklet, at the capture rate
+   * (`captureSampleRate`, else the AudioContext's). It reaches the client in
+   * chunkDurationMs chunks like the real worklet's; the rest waits for more
+   * audio or for the client to stop recording.
+   */
+  speak(samples: Float32Array): void {
+    this.activeCaptureNode().write(samples);
+  }
+
+  /** Report a VAD transition, as the worklet's detector would. */
+  setSpeaking(speaking: boolean): void {
+    this.activeCaptureNode().speaking(speaking);
+  }
+
+  /** Put the fakes on globalThis; uninstall() puts the originals back. */
+  install(): this {
+    const mock = this;
+    const { devices = DEFAULT_DEVICES, denyMicrophone } = this.options;
+    const inputs = devices!.filter((device) => device.kind === 'audioinput');
+
+    this.replace(
+      globalThis,
+      'AudioContext',
+      function (options?: AudioContextOptions) {
+        return new FakeAudioContext(mock, options);
+      }
+    );
+    this.replace(globalThis, 'AudioWorkletNode', FakeAudioWorkletNode);
+    this.replace(globalThis.navigator, 'mediaDevices', {
+      getUserMedia: async (constraints: MediaStreamConstraints) => {
+        mock.constraints.push(constraints);
+        if (denyMicrophone) {
+          throw new DOMException('Permission denied', 'NotAllowedError');
+        }
+        const audio =
+          typeof constraints.audio === 'object' ? constraints.audio : {};
+        const requested = audio.deviceId as { exact?: string } | undefined;
+        const device =
+          inputs.find(({ deviceId }) => deviceId === requested?.exact) ??
+          inputs[0];
+        return new FakeMediaStream([
+          new FakeMediaStreamTrack(
+            device?.label ?? 'Mock microphone',
+            device?.deviceId ?? 'default'
+          ),
+        ]);
+      },
+      enumerateDevices: async () => devices!.map((device) => ({ ...device })),
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    });
+    // jsdom has no object URLs; the client makes them for embedded worklets
+    if (typeof URL.createObjectURL !== 'function') {
+      this.replace(URL, 'createObjectURL', () => 'blob:mock');
+      this.replace(URL, 'revokeObjectURL', () => {});
+    }
+    return this;
+  }
+
+  /** Restore the globals install() replaced. */
+  uninstall(): void {
+    this.restore.reverse().forEach((restore) => restore());
+    this.restore = [];
+  }
+
+  private activeCaptureNode() {
+    const node = [...this.captureNodes].reverse().find((n) => !n.detached);
+    if (!node) {
+      throw new Error('No capture worklet running; is the client recording?');
+    }
+    return node;
+  }
+
+  private replace(target: object, key: string, value: unknown) {
+    const previous = Object.getOwnPropertyDescriptor(target, key);
+    Object.defineProperty(target, key, {
+      value,
+      configurable: true,
+      writable: true,
+    });
+    this.restore.push(() => {
+      if (previous) {
+        Object.defineProperty(target, key, previous);
+      } else {
+        delete (target as Record<string, unknown>)[key];
+      }
+    });
+  }
+}
+
+/** Create a WebVoiceMockAudio and install it on globalThis. */
+export const installMockAudio = (
+  options?: IMockAudioOptions
+): WebVoiceMockAudio => new WebVoiceMockAudio(options).install();
@@ -0,0 +1,368 @@
+/**
+ * webVoiceMockServer — Scriptable stand-in for the voice backend (Node only)
+ *
+ * A `ws` server that speaks the documented protocol: records everything the
+ * client sends, answers `ping` (and optionally acknowledges `start`), and
+ * plays a script of TTS and control events on cues from the client. Pair it
+ * with installMockAudio() to run the hook end-to-end in jsdom.
+ */
+
+import type { AddressInfo } from 'net';
+import { WebSocketServer, type RawData, type WebSocket } from 'ws';
+
+import type { WebVoiceTransport } from './webVoice';
+import { decodeMediaFrame, encodeMediaFrame } from './webVoiceFrames';
+import { createAudioEncoder } from './webVoiceUtils';
+
+/** Control events the script can send by name. */
+export type MockVoiceControlEvent = 'barge' | 'stop' | 'EOC';
+
+/** A message received from the client. */
+export interface IMockVoiceReceived {
+  /**
+   * `event` of the message; 'media' for binary media frames; 'malformed' for
+   * frames that aren't a JSON object or a valid media frame (see `error`).
+   */
+  event: string;
+  /** Parsed JSON, or null for binary and malformed frames. */
+  message: Record<string, unknown> | null;
+  /** Media payload bytes (base64-decoded, or the binary frame's payload); the raw frame when malformed. */
+  payload?: Uint8Array;
+  /** Why a malformed frame was rejected. */
+  error?: string;
+  /** Date.now() on arrival. */
+  at: number;
+}
+
+/** Matches a received message: an event name, or a predicate. */
+export type MockVoiceCue = string | ((received: IMockVoiceReceived) => boolean);
+
+/** TTS streamed to the client as `media` messages (or binary frames, if the client uses them). */
+export interface IMockVoiceTts {
+  /** Float32 samples, encoded as `encoding`; or bytes already in `encoding`. */
+  audio: Float32Array | Uint8Array;
+  /** Sent as `sample_rate`. Default: 16000. */
+  sampleRate?: number;
+  /** Default: 'pcm16'. */
+  encoding?: 'pcm16' | 'mulaw' | 'alaw';
+  /** Audio per message (ms). Default: 100. */
+  chunkMs?: number;
+  /** Pace messages at playback speed; false sends them all at once. Default: true. */
+  realtime?: boolean;
+}
+
+/** One scripted server turn, run once when its cue arrives. */
+export interface IMockVoiceStep {
+  /** Client message that triggers the step, e.g. 'start', 'EOU' or 'media'. */
+  on: MockVoiceCue;
+  /** Wait after the cue (ms). Default: 0. */
+  delayMs?: number;
+  /** TTS to stream. */
+  tts?: IMockVoiceTts;
+  /** Events to send after the TTS, e.g. ['stop'] or [{ event: 'transcript', ... }]. */
+  send?: (MockVoiceControlEvent | Record<string, unknown>)[];
+}
+
+export interface IMockVoiceServerOptions {
+  /** Default: 0 (any free port; see `url`). */
+  port?: number;
+  /** Default: '127.0.0.1'. */
+  host?: string;
+  /**
+   * Steps run in order, each once, across connections. A step's cue is
+   * matched only after the previous step's cue; steps never overlap.
+   */
+  script?: IMockVoiceStep[];
+  /** Reply to `start` with this event (for `startAck`). Default: none. */
+  startAck?: string;
+  /** Reply to `ping` with this event, echoing its metadata; false for none. Default: 'pong'. */
+  pongEvent?: string | false;
+}
+
+/** Default timeout for waitFor (ms). */
+const WAIT_TIMEOUT_MS = 5_000;
+/** Defaults for IMockVoiceTts. */
+const DEFAULT_TTS = {
+  sampleRate: 16_000,
+  encoding: 'pcm16',
+  chunkMs: 100,
+  realtime: true,
+} as const;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const matches = (cue: MockVoiceCue, received: IMockVoiceReceived) =>
+  typeof cue === 'string' ? received.event === cue : cue(received);
+
+const toBytes = (data: RawData): Uint8Array => {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  return data instanceof ArrayBuffer
+    ? new Uint8Array(data)
+    : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+};
+
+const parseBinaryFrame = (bytes: Uint8Array): IMockVoiceReceived => ({
+  event: 'media',
+  message: null,
+  payload: decodeMediaFrame(bytes.slice().buffer).payload,
+  at: Date.now(),
+});
+
+const parseJsonFrame = (bytes: Uint8Array): IMockVoiceReceived => {
+  const message = JSON.parse(Buffer.from(bytes).toString('utf8'));
+  if (
+    typeof message !== 'object' ||
+    message === null ||
+    Array.isArray(message)
+  ) {
+    throw new Error('Not a JSON object');
+  }
+  const payload = message.media?.payload;
+  return {
+    event: String(message.event),
+    message,
+    payload:
+      message.event === 'media' && typeof payload === 'string'
+        ? new Uint8Array(Buffer.from(payload, 'base64'))
+        : undefined,
+    at: Date.now(),
+  };
+};
+
+interface IWaiter {
+  cue: MockVoiceCue;
+  resolve: (received: IMockVoiceReceived) => void;
+}
+
+export class WebVoiceMockServer {
+  /** Everything received from the client, oldest first (see clear()). */
+  readonly received: IMockVoiceReceived[] = [];
+  /** Errors thrown by script steps; later steps still run. */
+  readonly errors: Error[] = [];
+  /** ws:// URL to pass as `websocketUrl`. */
+  readonly url: string;
+
+  private readonly server: WebSocketServer;
+  private readonly options: IMockVoiceServerOptions;
+  private socket: WebSocket | null = null;
+  private transport: WebVoiceTransport = 'json';
+  private waiters = new Set<IWaiter>();
+  private scriptIndex = 0;
+  private scriptRun: Promise<void> = Promise.resolve();
+  /** Bumped by barge (either side) so TTS being streamed stops. */
+  private ttsGeneration = 0;
+  private sequence = 0;
+
+  private constructor(
+    server: WebSocketServer,
+    options: IMockVoiceServerOptions
+  ) {
+    const { address, port } = server.address() as AddressInfo;
+    this.url = `ws://${address}:${port}`;
+    this.server = server;
+    this.options = options;
+    server.on('connection', this.handleConnection);
+  }
+
+  /** Start listening; resolves once `url` is usable. */
+  static start(
+    options: IMockVoiceServerOptions = {}
+  ): Promise<WebVoiceMockServer> {
+    const { port = 0, host = '127.0.0.1' } = options;
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({ port, host });
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        resolve(new WebVoiceMockServer(server, options));
+      });
+    });
+  }
+
+  get isConnected(): boolean {
+    return this.socket?.readyState === 1;
+  }
+
+  /**
+   * First received message matching `cue`, including ones already received
+   * (clear() to ignore those). Rejects after `timeoutMs`.
+   */
+  waitFor(
+    cue: MockVoiceCue,
+    timeoutMs = WAIT_TIMEOUT_MS
+  ): Promise<IMockVoiceReceived> {
+    const found = this.received.find((received) => matches(cue, received));
+    if (found) return Promise.resolve(found);
+
+    return new Promise((resolve, reject) => {
+      const waiter: IWaiter = {
+        cue,
+        resolve: (received) => {
+          clearTimeout(timer);
+          resolve(received);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        reject(
+          new Error(`No ${String(cue)} from the client in ${timeoutMs}ms`)
+        );
+      }, timeoutMs);
+      this.waiters.add(waiter);
+    });
+  }
+
+  /** Received messages with `event`. */
+  messages(event: string): IMockVoiceReceived[] {
+    return this.received.filter((received) => received.event === event);
+  }
+
+  /** Forget what was received so far. */
+  clear(): void {
+    this.received.length = 0;
+  }
+
+  /** Send a control event by name, or any message, to the connected client. */
+  send(message: MockVoiceControlEvent | Record<string, unknown>): void {
+    const payload = typeof message === 'string' ? { event: message } : message;
+    if (payload.event === 'barge' || payload.event === 'BARGE') {
+      this.ttsGeneration++;
+    }
+    this.socket?.send(JSON.stringify(payload));
+  }
+
+  /** Stream TTS to the connected client; resolves when sent (or interrupted by barge). */
+  async sendTts(tts: IMockVoiceTts): Promise<void> {
+    const { audio, sampleRate, encoding, chunkMs, realtime } = {
+      ...DEFAULT_TTS,
+      ...tts,
+    };
+    const bytes =
+      audio instanceof Float32Array
+        ? await createAudioEncoder(encoding).encode(audio, sampleRate)
+        : audio;
+    const bytesPerSample = encoding === 'pcm16' ? 2 : 1;
+    const chunkSize =
+      Math.max(1, Math.round((sampleRate * chunkMs) / 1000)) * bytesPerSample;
+    const generation = this.ttsGeneration;
+
+    for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+      if (generation !== this.ttsGeneration || !this.isConnected) return;
+      this.sendMedia(bytes.subarray(offset, offset + chunkSize), {
+        sampleRate,
+        encoding,
+      });
+      if (realtime) await sleep(chunkMs);
+    }
+  }
+
+  /** Close the client's connection (e.g. to exercise reconnection). */
+  disconnect(code = 1000, reason = ''): void {
+    this.socket?.close(code, reason);
+  }
+
+  /** Close the connection and stop listening. */
+  close(): Promise<void> {
+    this.ttsGeneration++;
+    this.server.clients.forEach((client) => client.terminate());
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private handleConnection = (socket: WebSocket) => {
+    this.socket = socket;
+    this.transport = 'json';
+    this.sequence = 0;
+    socket.on('message', (data, isBinary) =>
+      this.handleMessage(toBytes(data), isBinary)
+    );
+    socket.on('close', () => {
+      if (this.socket === socket) this.socket = null;
+    });
+  };
+
+  private handleMessage(bytes: Uint8Array, isBinary: boolean) {
+    let received: IMockVoiceReceived;
+    try {
+      received = isBinary ? parseBinaryFrame(bytes) : parseJsonFrame(bytes);
+    } catch (error) {
+      // Recorded for the test to assert on, rather than crashing the process
+      received = {
+        event: 'malformed',
+        message: null,
+        payload: bytes,
+        error: error instanceof Error ? error.message : String(error),
+        at: Date.now(),
+      };
+    }
+
+    this.received.push(received);
+    this.respond(received);
+    this.waiters.forEach((waiter) => {
+      if (!matches(waiter.cue, received)) return;
+      this.waiters.delete(waiter);
+      waiter.resolve(received);
+    });
+    this.advanceScript(received);
+  }
+
+  // What a real backend does unprompted
+  private respond({ event, message }: IMockVoiceReceived) {
+    const { startAck, pongEvent = 'pong' } = this.options;
+    if (event === 'start') {
+      this.transport = message?.transport === 'binary' ? 'binary' : 'json';
+      if (startAck) this.send({ event: startAck });
+    } else if (event === 'ping' && pongEvent) {
+      this.send({ event: pongEvent, metadata: message?.metadata });
+    } else if (event === 'barge') {
+      this.ttsGeneration++;
+    }
+  }
+
+  private advanceScript(received: IMockVoiceReceived) {
+    const step = this.options.script?.[this.scriptIndex];
+    if (!step || !matches(step.on, received)) return;
+
+    this.scriptIndex++;
+    this.scriptRun = this.scriptRun
+      .then(async () => {
+        if (step.delayMs) await sleep(step.delayMs);
+        if (step.tts) await this.sendTts(step.tts);
+        step.send?.forEach((message) => this.send(message));
+      })
+      // A failed step is recorded and doesn't stall the ones after it
+      .catch((error) => {
+        this.errors.push(
+          error instanceof Error ? error : new Error(String(error))
+        );
+      });
+  }
+
+  private sendMedia(
+    payload: Uint8Array,
+    { sampleRate, encoding }: { sampleRate: number; encoding: string }
+  ) {
+    if (this.transport === 'binary') {
+      this.socket?.send(
+        encodeMediaFrame(
+          {
+            sequence: this.sequence++,
+            sampleRate,
+            timestamp: Date.now(),
+            codec: encoding,
+          },
+          payload
+        )
+      );
+      return;
+    }
+    this.send({
+      event: 'media',
+      media: { payload: Buffer.from(payload).toString('base64') },
+      sample_rate: sampleRate,
+      encoding,
+    });
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * webVoiceProcessing — Mic preprocessing chain
+ *
+ * Turns `capture.processing` stages into AudioNodes, in order, for the graph
+ * between the mic source and the capture worklet. The noise gate is a
+ * processor in the embedded worklet module; custom worklet stages load their
+ * own module.
+ */
+
+import type {
+  IWebVoiceCompressorOptions,
+  IWebVoiceNoiseGateStage,
+  WebVoiceProcessingStage,
+} from './webVoice';
+
+/** Defaults for IWebVoiceCompressorOptions (the `compressor` option and stage). */
+export const DEFAULT_COMPRESSOR: Required<IWebVoiceCompressorOptions> = {
+  threshold: -30,
+  knee: 40,
+  ratio: 8,
+  attack: 0.002,
+  release: 0.1,
+};
+
+/** Defaults for the highPass stage. */
+const DEFAULT_HIGH_PASS = { frequency: 100, q: Math.SQRT1_2 };
+
+/** Defaults for IWebVoiceNoiseGateStage. */
+const DEFAULT_NOISE_GATE: Required<Omit<IWebVoiceNoiseGateStage, 'type'>> = {
+  thresholdDb: -50,
+  attackMs: 5,
+  holdMs: 150,
+  releaseMs: 100,
+};
+
+/** Processor name registered by audio-processor.js for the noise gate. */
+const NOISE_GATE_PROCESSOR = 'web-voice-noise-gate';
+
+export interface IProcessingModuleLoaders {
+  /** Loads the embedded worklet module (noise gate). */
+  loadWorklet: () => Promise<void>;
+  /** Loads a custom stage's module, once per AudioContext. */
+  loadModule: (moduleUrl: string) => Promise<void>;
+}
+
+const createStageNodes = async (
+  audioContext: AudioContext,
+  stage: WebVoiceProcessingStage,
+  loaders: IProcessingModuleLoaders
+): Promise<AudioNode[]> => {
+  switch (stage.type) {
+    case 'highPass': {
+      const { frequency, q } = { ...DEFAULT_HIGH_PASS, ...stage };
+      const filter = audioContext.createBiquadFilter();
+      filter.type = 'highpass';
+      filter.frequency.value = frequency;
+      filter.Q.value = q;
+      return [filter];
+    }
+    case 'noiseGate': {
+      await loaders.loadWorklet();
+      const { type: _type, ...settings } = stage;
+      return [
+        new AudioWorkletNode(audioContext, NOISE_GATE_PROCESSOR, {
+          processorOptions: { ...DEFAULT_NOISE_GATE, ...settings },
+        }),
+      ];
+    }
+    case 'gain': {
+      const gainNode = audioContext.createGain();
+      gainNode.gain.value = stage.gain;
+      return [gainNode];
+    }
+    case 'compressor': {
+      const settings = { ...DEFAULT_COMPRESSOR, ...stage };
+      const compressor = audioContext.createDynamicsCompressor();
+      compressor.threshold.value = settings.threshold;
+      compressor.knee.value = settings.knee;
+      compressor.ratio.value = settings.ratio;
+      compressor.attack.value = settings.attack;
+      compressor.release.value = settings.release;
+      return [compressor];
+    }
+    case 'custom': {
+      const nodes = stage.create(audioContext);
+      return Array.isArray(nodes) ? nodes : [nodes];
+    }
+    case 'worklet':
+      await loaders.loadModule(stage.moduleUrl);
+      return [
+        new AudioWorkletNode(audioContext, stage.processorName, stage.options),
+      ];
+    default:
+      throw new Error(
+        `Unknown processing stage: ${(stage as { type?: unknown }).type}`
+      );
+  }
+};
+
+/**
+ * Nodes for `stages`, in order and connected to each other; connect the mic
+ * to the first and the capture worklet to the last. Empty for no stages.
+ * Nothing is left connected if a stage fails.
+ */
+export const createProcessingChain = async (
+  audioContext: AudioContext,
+  stages: WebVoiceProcessingStage[],
+  loaders: IProcessingModuleLoaders
+): Promise<AudioNode[]> => {
+  const nodes: AudioNode[] = [];
+  try {
+    for (const stage of stages) {
+      nodes.push(...(await createStageNodes(audioContext, stage, loaders)));
+    }
+  } catch (error) {
+    nodes.forEach((node) => node.disconnect());
+    throw error;
+  }
+
+  // `[]` sends the mic audio unprocessed: the caller connects it directly
+  for (let i = 1; i < nodes.length; i++) {
+    nodes[i - 1].connect(nodes[i]);
+  }
+  return nodes;
+};
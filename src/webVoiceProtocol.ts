@@ -0,0 +1,227 @@
+/**
+ * webVoiceProtocol — Runtime validation of the JSON WebSocket protocol
+ *
+ * Message shapes live in webVoice.ts (WebVoiceClientMessage /
+ * WebVoiceServerMessage). These guards check untrusted JSON against them, so
+ * the client, servers and test harnesses can share one schema.
+ */
+
+import type {
+  IWebVoiceCustomMessage,
+  IWebVoiceTranscriptUpdate,
+  WebVoiceClientMessage,
+  WebVoiceInputEncoding,
+  WebVoiceServerMessage,
+} from './webVoice';
+
+/** A frame that doesn't match the protocol; `payload` is what was received. */
+export class WebVoiceProtocolError extends Error {
+  readonly payload: unknown;
+
+  constructor(message: string, payload: unknown) {
+    super(message);
+    this.name = 'WebVoiceProtocolError';
+    this.payload = payload;
+  }
+}
+
+type MessageRecord = Record<string, unknown>;
+/** Returns why the message is malformed, or null when it is valid. */
+type Validator = (message: MessageRecord) => string | null;
+
+const INPUT_ENCODINGS: WebVoiceInputEncoding[] = [
+  'pcm16',
+  'pcm16le',
+  'pcm16be',
+  'mulaw',
+  'alaw',
+  'wav',
+];
+
+const isRecord = (value: unknown): value is MessageRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || check(value);
+
+const isString = (value: unknown) => typeof value === 'string';
+
+const isPositiveNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const noFields: Validator = () => null;
+
+const validatePing: Validator = ({ metadata }) =>
+  isOptional(
+    metadata,
+    (value) => isRecord(value) && isOptional(value.timestamp, isString)
+  )
+    ? null
+    : '`metadata.timestamp` must be a string';
+
+const SERVER_VALIDATORS: Record<WebVoiceServerMessage['event'], Validator> = {
+  media: ({ media, sample_rate, encoding }) => {
+    if (!isRecord(media) || !isString(media.payload)) {
+      return '`media.payload` must be a base64 string';
+    }
+    if (!isOptional(sample_rate, isPositiveNumber)) {
+      return '`sample_rate` must be a positive number';
+    }
+    if (
+      !isOptional(encoding, (value) =>
+        INPUT_ENCODINGS.includes(value as WebVoiceInputEncoding)
+      )
+    ) {
+      return `\`encoding\` must be one of ${INPUT_ENCODINGS.join(', ')}`;
+    }
+    return null;
+  },
+  barge: noFields,
+  BARGE: noFields,
+  stop: noFields,
+  EOC: noFields,
+  ping: validatePing,
+};
+
+const CLIENT_VALIDATORS: Record<WebVoiceClientMessage['event'], Validator> = {
+  start: ({ transport, media_format }) => {
+    if (
+      !isOptional(transport, (value) =>
+        ['json', 'binary'].includes(value as string)
+      )
+    ) {
+      return "`transport` must be 'json' or 'binary'";
+    }
+    if (
+      !isOptional(
+        media_format,
+        (value) =>
+          isRecord(value) &&
+          isString(value.encoding) &&
+          isPositiveNumber(value.sample_rate) &&
+          isPositiveNumber(value.channels)
+      )
+    ) {
+      return '`media_format` needs encoding, sample_rate and channels';
+    }
+    if (
+      isRecord(media_format) &&
+      !isOptional(media_format.framing, (value) => value === 'length-prefixed')
+    ) {
+      return "`media_format.framing` must be 'length-prefixed'";
+    }
+    return null;
+  },
+  media: ({ media }) =>
+    isRecord(media) &&
+    isString(media.payload) &&
+    isOptional(media.timestamp, (value) => typeof value === 'number')
+      ? null
+      : '`media.payload` must be a base64 string',
+  ping: (message) =>
+    isRecord(message.metadata)
+      ? validatePing(message)
+      : '`metadata.timestamp` must be a string',
+  TTS_PLAYING: ({ media }) =>
+    isRecord(media) && typeof media.tts_playing === 'boolean'
+      ? null
+      : '`media.tts_playing` must be a boolean',
+  barge: noFields,
+  EOU: noFields,
+  EOC: noFields,
+  text: ({ text }) => (isString(text) ? null : '`text` must be a string'),
+};
+
+// null: valid; undefined: well-formed but an event this schema doesn't know
+const validate = (
+  value: unknown,
+  validators: Record<string, Validator>
+): string | null | undefined => {
+  if (!isRecord(value)) return 'Message must be a JSON object';
+  if (!isString(value.event)) return '`event` must be a string';
+  const validator = validators[value.event as string];
+  return validator ? validator(value) : undefined;
+};
+
+/**
+ * Why `value` is not a valid server message, or null when it is. Unknown
+ * events with a string `event` are not errors (see isServerMessage).
+ */
+export const getServerMessageError = (value: unknown): string | null =>
+  validate(value, SERVER_VALIDATORS) ?? null;
+
+/** Why `value` is not a valid client message, or null when it is. */
+export const getClientMessageError = (value: unknown): string | null =>
+  validate(value, CLIENT_VALIDATORS) ?? null;
+
+/** True for a known, well-formed server → client message. */
+export const isServerMessage = (
+  value: unknown
+): value is WebVoiceServerMessage =>
+  validate(value, SERVER_VALIDATORS) === null;
+
+/** True for a known, well-formed client → server message. */
+export const isClientMessage = (
+  value: unknown
+): value is WebVoiceClientMessage =>
+  validate(value, CLIENT_VALIDATORS) === null;
+
+/** True for a well-formed server message with the given `event`. */
+export const isServerEvent = <E extends WebVoiceServerMessage['event']>(
+  value: unknown,
+  event: E
+): value is WebVoiceServerMessage & { event: E } =>
+  isServerMessage(value) && value.event === event;
+
+/** True for a well-formed client message with the given `event`. */
+export const isClientEvent = <E extends WebVoiceClientMessage['event']>(
+  value: unknown,
+  event: E
+): value is WebVoiceClientMessage & { event: E } =>
+  isClientMessage(value) && value.event === event;
+
+/**
+ * Parse one text frame from the server. Throws WebVoiceProtocolError (with
+ * the raw frame) for invalid JSON or a malformed known event; unknown events
+ * are returned as-is for the caller to route.
+ */
+export const parseServerMessage = (
+  data: string
+): WebVoiceServerMessage | IWebVoiceCustomMessage => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    throw new WebVoiceProtocolError('Message is not valid JSON', data);
+  }
+
+  const error = getServerMessageError(message);
+  if (error) {
+    throw new WebVoiceProtocolError(
+      `Malformed server message: ${error}`,
+      message
+    );
+  }
+  return message as WebVoiceServerMessage;
+};
+
+const AGENT_ROLES = ['agent', 'assistant', 'bot'];
+
+/**
+ * Default transcript reader: `text` (or `transcript`), `role` (or `speaker`)
+ * and `is_final` (or `final`, default true). Null when there is no text.
+ */
+export const parseTranscriptMessage = (
+  message: IWebVoiceCustomMessage
+): IWebVoiceTranscriptUpdate | null => {
+  const text = message.text ?? message.transcript;
+  if (!isString(text)) return null;
+
+  const role = String(message.role ?? message.speaker ?? '').toLowerCase();
+  const isFinal = message.is_final ?? message.final;
+  return {
+    role: AGENT_ROLES.includes(role) ? 'agent' : 'user',
+    text: text as string,
+    isFinal: isFinal !== false,
+  };
+};
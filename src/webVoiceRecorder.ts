@@ -0,0 +1,288 @@
+/**
+ * webVoiceRecorder — Time-aligned recording of both sides of a conversation
+ *
+ * Mic chunks (user) and scheduled TTS (agent) are written onto one timeline
+ * keyed by AudioContext time, in 100ms blocks of 16-bit PCM, and exported as WAV:
+ * stereo (left user, right agent) or one mono file per track.
+ *
+ * Buffered mode keeps the last `maxDurationMs`. With `chunkMs`, settled audio
+ * is handed out as WAV chunks and freed instead, so long calls stay small.
+ */
+
+import type {
+  IWebVoiceRecordingChunk,
+  IWebVoiceRecordingOptions,
+  IWebVoiceRecordingTracks,
+} from './webVoice';
+import { floatToInt16, StreamingResampler } from './webVoiceDsp';
+import { encodeWav } from './webVoiceUtils';
+
+/** Timeline granularity; chunkMs and maxDurationMs round up to it. */
+const BLOCK_MS = 100;
+/** Audio this far (s) behind the clock won't be written to again. */
+const SETTLE_SECONDS = 1;
+/** Input starting within this (s) of where the last write ended continues it. */
+const CONTINUITY_SECONDS = 0.05;
+/** Default cap for buffered mode (~10.6 MB per minute at 44.1 kHz). */
+const DEFAULT_MAX_DURATION_MS = 5 * 60_000;
+
+export type WebVoiceRecordingTrack = 'user' | 'agent';
+
+// One resampler per contiguous run of a track, so chunk edges don't click
+interface ITrackResampler {
+  resampler: StreamingResampler;
+  /** AudioContext time the run's input has reached. */
+  inputEnd: number;
+  /** Timeline position of the run's next output sample. */
+  position: number;
+}
+
+// Int16, like the WAV it's exported as: half the memory of Float32
+interface IRecordingBlock {
+  user: Int16Array;
+  agent: Int16Array;
+}
+
+export class WebVoiceRecorder {
+  private readonly sampleRate: number;
+  private readonly origin: number;
+  private readonly blockSize: number;
+  private readonly maxBlocks: number;
+  private readonly chunkBlocks: number;
+  private readonly onChunk?: (chunk: IWebVoiceRecordingChunk) => void;
+
+  private blocks: IRecordingBlock[] = [];
+  /** Timeline index of blocks[0]. */
+  private firstBlock = 0;
+  /** One past the last sample written, per track. */
+  private ends = { user: 0, agent: 0 };
+  private resamplers: Record<WebVoiceRecordingTrack, ITrackResampler | null> = {
+    user: null,
+    agent: null,
+  };
+  private chunkIndex = 0;
+  private finished = false;
+
+  /**
+   * @param sampleRate - Rate of the recording; user audio is resampled to it.
+   * @param origin - AudioContext time the timeline starts at.
+   */
+  constructor(
+    sampleRate: number,
+    origin: number,
+    options: IWebVoiceRecordingOptions = {},
+    onChunk?: (chunk: IWebVoiceRecordingChunk) => void
+  ) {
+    const { maxDurationMs = DEFAULT_MAX_DURATION_MS, chunkMs } = options;
+    this.sampleRate = sampleRate;
+    this.origin = origin;
+    this.blockSize = Math.round((sampleRate * BLOCK_MS) / 1000);
+    this.maxBlocks = Math.max(1, Math.ceil(maxDurationMs / BLOCK_MS));
+    this.chunkBlocks = chunkMs ? Math.max(1, Math.ceil(chunkMs / BLOCK_MS)) : 0;
+    this.onChunk = onChunk;
+  }
+
+  /** Mix `samples` into a track starting at AudioContext time `startTime`. */
+  write(
+    track: WebVoiceRecordingTrack,
+    samples: Float32Array,
+    sampleRate: number,
+    startTime: number
+  ): void {
+    if (this.finished || samples.length === 0) return;
+
+    if (sampleRate === this.sampleRate) {
+      this.endResampling(track);
+      this.mix(
+        track,
+        samples,
+        Math.round((startTime - this.origin) * this.sampleRate)
+      );
+      return;
+    }
+
+    let run = this.resamplers[track];
+    if (
+      !run ||
+      run.resampler.inputRate !== sampleRate ||
+      Math.abs(startTime - run.inputEnd) > CONTINUITY_SECONDS
+    ) {
+      this.endResampling(track);
+      run = this.resamplers[track] = {
+        resampler: new StreamingResampler(sampleRate, this.sampleRate),
+        inputEnd: startTime,
+        position: Math.round((startTime - this.origin) * this.sampleRate),
+      };
+    }
+    const data = run.resampler.process(samples);
+    this.mix(track, data, run.position);
+    run.position += data.length;
+    run.inputEnd = startTime + samples.length / sampleRate;
+  }
+
+  /** Silence the agent track from `time` on (TTS that was scheduled but cut off). */
+  truncateAgent(time: number): void {
+    const position = Math.max(
+      this.firstBlock * this.blockSize,
+      Math.round((time - this.origin) * this.sampleRate)
+    );
+    if (position >= this.ends.agent) return;
+
+    for (let p = position; p < this.ends.agent; p++) {
+      const block =
+        this.blocks[Math.floor(p / this.blockSize) - this.firstBlock];
+      if (block) block.agent[p % this.blockSize] = 0;
+    }
+    this.ends.agent = position;
+  }
+
+  /** Streaming mode: emit every full chunk that is at least SETTLE_SECONDS old. */
+  flush(now: number): void {
+    if (!this.chunkBlocks || this.finished) return;
+    const settledBlocks = Math.floor(
+      ((now - SETTLE_SECONDS - this.origin) * 1000) / BLOCK_MS
+    );
+    while (
+      this.blocks.length >= this.chunkBlocks &&
+      this.firstBlock + this.chunkBlocks <= settledBlocks
+    ) {
+      this.emitChunk(this.chunkBlocks, false);
+    }
+  }
+
+  /** Stop recording; audio after `time` is cut and, when streaming, the rest is emitted. */
+  finish(time?: number): void {
+    if (this.finished) return;
+    this.endResampling('user');
+    this.endResampling('agent');
+    if (time !== undefined) this.truncateAgent(time);
+
+    if (this.chunkBlocks) {
+      while (this.blocks.length > 0) {
+        this.emitChunk(Math.min(this.chunkBlocks, this.blocks.length), true);
+      }
+    }
+    this.finished = true;
+  }
+
+  /** Drop buffered audio; recording continues. */
+  clear(): void {
+    this.firstBlock += this.blocks.length;
+    this.blocks = [];
+  }
+
+  /** Buffered audio as stereo WAV (left user, right agent), or null when empty. */
+  toWav(): Blob | null {
+    const tracks = this.render(this.blocks.length);
+    return tracks && encodeWav([tracks.user, tracks.agent], this.sampleRate);
+  }
+
+  /** Buffered audio as one mono WAV per track, or null when empty. */
+  toTracks(): IWebVoiceRecordingTracks | null {
+    const tracks = this.render(this.blocks.length);
+    return (
+      tracks && {
+        user: encodeWav([tracks.user], this.sampleRate),
+        agent: encodeWav([tracks.agent], this.sampleRate),
+      }
+    );
+  }
+
+  // Drain the filter's look-ahead (the run's last few samples) and end the run
+  private endResampling(track: WebVoiceRecordingTrack) {
+    const run = this.resamplers[track];
+    if (!run) return;
+    this.resamplers[track] = null;
+
+    const owed =
+      Math.round((run.inputEnd - this.origin) * this.sampleRate) - run.position;
+    if (owed <= 0) return;
+    const tail = run.resampler.process(
+      new Float32Array(run.resampler.lookahead)
+    );
+    this.mix(track, tail.subarray(0, owed), run.position);
+  }
+
+  // Add `data` to a track at timeline `position`
+  private mix(
+    track: WebVoiceRecordingTrack,
+    data: Float32Array,
+    position: number
+  ) {
+    let offset = 0;
+
+    // Skip anything before the kept window (dropped or already emitted)
+    const first = this.firstBlock * this.blockSize;
+    if (position < first) {
+      offset = first - position;
+      position = first;
+    }
+
+    while (offset < data.length) {
+      const block = this.getBlock(Math.floor(position / this.blockSize));
+      const start = position % this.blockSize;
+      const count = Math.min(this.blockSize - start, data.length - offset);
+      const target = block[track];
+      for (let i = 0; i < count; i++) {
+        // Clamp the mix: Int16Array stores wrap around instead of saturating
+        const mixed = target[start + i] + floatToInt16(data[offset + i]);
+        target[start + i] = Math.max(-0x8000, Math.min(0x7fff, mixed));
+      }
+      offset += count;
+      position += count;
+    }
+
+    this.ends[track] = Math.max(this.ends[track], position);
+
+    // Buffered mode: keep only the most recent maxDurationMs
+    if (!this.chunkBlocks) {
+      const excess = this.blocks.length - this.maxBlocks;
+      if (excess > 0) {
+        this.blocks.splice(0, excess);
+        this.firstBlock += excess;
+      }
+    }
+  }
+
+  private getBlock(index: number): IRecordingBlock {
+    while (this.firstBlock + this.blocks.length <= index) {
+      this.blocks.push({
+        user: new Int16Array(this.blockSize),
+        agent: new Int16Array(this.blockSize),
+      });
+    }
+    return this.blocks[index - this.firstBlock];
+  }
+
+  // Concatenate the first `count` blocks, optionally trimmed to the last written sample
+  private render(count: number, trim = true) {
+    const end = Math.max(this.ends.user, this.ends.agent);
+    const length = trim
+      ? Math.min(count * this.blockSize, end - this.firstBlock * this.blockSize)
+      : count * this.blockSize;
+    if (length <= 0) return null;
+
+    const user = new Int16Array(length);
+    const agent = new Int16Array(length);
+    for (let i = 0; i < count && i * this.blockSize < length; i++) {
+      const size = Math.min(this.blockSize, length - i * this.blockSize);
+      user.set(this.blocks[i].user.subarray(0, size), i * this.blockSize);
+      agent.set(this.blocks[i].agent.subarray(0, size), i * this.blockSize);
+    }
+    return { user, agent };
+  }
+
+  private emitChunk(count: number, trim: boolean) {
+    const tracks = this.render(count, trim);
+    if (tracks) {
+      this.onChunk?.({
+        index: this.chunkIndex++,
+        startMs: this.firstBlock * BLOCK_MS,
+        durationMs: (tracks.user.length / this.sampleRate) * 1000,
+        blob: encodeWav([tracks.user, tracks.agent], this.sampleRate),
+      });
+    }
+    this.blocks.splice(0, count);
+    this.firstBlock += count;
+  }
+}
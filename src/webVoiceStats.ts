@@ -0,0 +1,107 @@
+/**
+ * webVoiceStats — Per-connection session metrics
+ *
+ * Counts media in both directions, playback underruns and the two latencies
+ * voice SLAs are usually written against: `start` → first TTS chunk, and end
+ * of user speech → first agent audio heard. Reset on every (re)connect.
+ */
+
+import type { IWebVoiceStats } from './webVoice';
+
+type StatsCounters = Omit<
+  IWebVoiceStats,
+  'bufferedPlaybackMs' | 'averageResponseLatencyMs'
+>;
+
+const createCounters = (): StatsCounters => ({
+  since: Date.now(),
+  startToFirstAudioMs: null,
+  responseLatencyMs: null,
+  responses: 0,
+  underruns: 0,
+  underrunMs: 0,
+  chunksSent: 0,
+  bytesSent: 0,
+  chunksReceived: 0,
+  bytesReceived: 0,
+  droppedSent: 0,
+  droppedReceived: 0,
+});
+
+export class WebVoiceStats {
+  private counters = createCounters();
+  private totalResponseLatencyMs = 0;
+  private startSentAt = 0;
+  /** Date.now() the user stopped speaking, while no agent audio has followed. */
+  private speechEndedAt = 0;
+
+  /** Start over for a new connection. */
+  reset(): void {
+    this.counters = createCounters();
+    this.totalResponseLatencyMs = 0;
+    this.startSentAt = 0;
+    this.speechEndedAt = 0;
+  }
+
+  startSent(): void {
+    this.startSentAt = Date.now();
+  }
+
+  sent(bytes: number): void {
+    this.counters.chunksSent++;
+    this.counters.bytesSent += bytes;
+  }
+
+  received(bytes: number): void {
+    const counters = this.counters;
+    counters.chunksReceived++;
+    counters.bytesReceived += bytes;
+    if (this.startSentAt && counters.startToFirstAudioMs === null) {
+      counters.startToFirstAudioMs = Date.now() - this.startSentAt;
+    }
+  }
+
+  dropped(direction: 'sent' | 'received'): void {
+    if (direction === 'sent') {
+      this.counters.droppedSent++;
+    } else {
+      this.counters.droppedReceived++;
+    }
+  }
+
+  /** The user finished a turn (VAD, push-to-talk release or final transcript). */
+  speechEnded(): void {
+    this.speechEndedAt = Date.now();
+  }
+
+  /**
+   * A TTS block was scheduled `delayMs` from now. The first one after the
+   * user's turn sets the response latency; later ones that start after the
+   * previous block ended (`gapMs` > 0) are underruns.
+   */
+  agentAudio(delayMs: number, gapMs: number): void {
+    const counters = this.counters;
+    if (this.speechEndedAt) {
+      const latency = Date.now() + delayMs - this.speechEndedAt;
+      this.speechEndedAt = 0;
+      counters.responseLatencyMs = latency;
+      counters.responses++;
+      this.totalResponseLatencyMs += latency;
+    } else if (gapMs > 0) {
+      counters.underruns++;
+      counters.underrunMs += gapMs;
+    }
+  }
+
+  /** Serialisable snapshot; the client supplies what is queued for playback. */
+  snapshot(bufferedPlaybackMs: number): IWebVoiceStats {
+    const { responses } = this.counters;
+    return {
+      ...this.counters,
+      averageResponseLatencyMs: responses
+        ? this.totalResponseLatencyMs / responses
+        : null,
+      bufferedPlaybackMs,
+    };
+  }
+}
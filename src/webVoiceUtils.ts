@@ -1,8 +1,10 @@
 /**
  * webVoiceUtils — Audio encoding/decoding and visualizer helpers
  *
- * Used by useWebVoice for: Float32 → PCM → µ-law → base64 (outbound),
- * base64 → PCM16 → Float32 (inbound), resampling, and audiomotion-analyzer options.
+ * Used by useWebVoice for: Float32 → PCM → µ-law / A-law / PCM16 / Opus → base64 (outbound),
+ * base64 → µ-law / A-law / PCM16 LE/BE / WAV → Float32 (inbound), resampling,
+ * and audiomotion-analyzer options. The sample-level codecs, WAV decoding and
+ * the resampler they build on are in webVoiceDsp.ts.
  */
 
 import type {
@@ -10,133 +12,316 @@ import type {
   ConstructorOptions,
 } from 'audiomotion-analyzer';
 
-/** Float32 [-1, 1] → Int16 PCM for encoding. */
-export function floatTo16BitPCM(float32Array: Float32Array): Int16Array {
-  const int16Array = new Int16Array(float32Array.length);
-  for (let i = 0; i < float32Array.length; i++) {
-    const s = Math.max(-1, Math.min(1, float32Array[i]));
-    int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-  }
-  return int16Array;
-}
-
-export const base64ToPCM16Data = (base64Data: string) => {
+import type { IWebVoiceAudioEncoder, WebVoiceCodec } from './webVoice';
+import {
+  convertPCMDataToFloat32,
+  encodeAudioChunk,
+  floatTo16BitPCM,
+  floatToInt16,
+  linearToMuLaw,
+  pcm16ToBytes,
+  StreamingResampler,
+  WAV_FORMAT,
+  type IWavFormat,
+} from './webVoiceDsp';
+
+export const base64ToUint8Array = (base64Data: string) => {
   const binaryString = atob(base64Data);
-  // Create ArrayBuffer to store binary data
-  const buffer = new ArrayBuffer(binaryString.length);
-  // Create view to write to buffer
-  const view = new Uint8Array(buffer);
+  // Create view over a fresh ArrayBuffer to store binary data
+  const view = new Uint8Array(binaryString.length);
 
   // Copy each byte from binary string to buffer
   for (let i = 0; i < binaryString.length; i++) {
     view[i] = binaryString.charCodeAt(i);
   }
 
-  // Convert buffer to 16-bit PCM format
-  const pcm16Data = new Int16Array(buffer);
-
-  return pcm16Data;
+  return view;
 };
 
-export function linearToMuLaw(pcm: Int16Array): Uint8Array {
-  const BIAS = 0x84;
-  const CLIP = 32635;
-  const muLawCompressed = new Uint8Array(pcm.length);
+/** Size of the bytes a base64 string decodes to, without decoding it. */
+export const base64ByteLength = (base64: string) => {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
 
-  for (let i = 0; i < pcm.length; i++) {
-    // Get 16-bit PCM sample
-    let sample = pcm[i];
+export const base64ToPCM16Data = (base64Data: string) =>
+  // Convert buffer to 16-bit PCM format
+  new Int16Array(base64ToUint8Array(base64Data).buffer);
+
+/** Bytes → base64, in slices so large chunks don't overflow the call stack. */
+export const uint8ArrayToBase64 = (bytes: Uint8Array) => {
+  const SLICE_SIZE = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += SLICE_SIZE) {
+    binary += String.fromCharCode.apply(
+      null,
+      Array.from(bytes.subarray(i, i + SLICE_SIZE))
+    );
+  }
+  return btoa(binary);
+};
 
-    // Apply bias
-    let sign = (sample >> 8) & 0x80;
-    if (sign) {
-      sample = -sample;
-    }
+export const getBase64Audio = (audioData: Float32Array) => {
+  const pcmData = floatTo16BitPCM(audioData);
+  // Convert to µ-law
+  const muLawData = linearToMuLaw(pcmData);
+  // Convert to base64
+  return uint8ArrayToBase64(muLawData);
+};
 
-    // Clip sample to max value
-    if (sample > CLIP) {
-      sample = CLIP;
-    }
+/** Opus only runs at 8/12/16/24/48 kHz; we always encode at 48 kHz. */
+const OPUS_SAMPLE_RATE = 48000;
+
+/** Length-prefix each packet (2-byte big-endian) so several fit in one payload. */
+const framePackets = (packets: Uint8Array[]) => {
+  const total = packets.reduce((acc, packet) => acc + 2 + packet.length, 0);
+  const framed = new Uint8Array(total);
+  const view = new DataView(framed.buffer);
+  let offset = 0;
+  for (const packet of packets) {
+    view.setUint16(offset, packet.length);
+    framed.set(packet, offset + 2);
+    offset += 2 + packet.length;
+  }
+  return framed;
+};
 
-    sample = sample + BIAS;
+// WebCodecs isn't in TypeScript's DOM lib yet: just the parts used below
+interface IEncodedAudioChunk {
+  readonly byteLength: number;
+  copyTo(destination: Uint8Array): void;
+}
 
-    // Convert to mu-law
-    let exponent = 7;
-    let mantissa;
-    for (; exponent > 0; exponent--) {
-      if (sample & 0x4000) break;
-      sample <<= 1;
-    }
-    mantissa = (sample >> 9) & 0x0f;
-    let ulawByte = ~(sign | (exponent << 4) | mantissa);
+interface IAudioData {
+  close(): void;
+}
 
-    // Clamp to 8 bits
-    muLawCompressed[i] = ulawByte & 0xff;
-  }
+interface IAudioEncoder {
+  readonly state: 'unconfigured' | 'configured' | 'closed';
+  configure(config: {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    bitrate: number;
+    opus?: { frameDuration: number };
+  }): void;
+  encode(data: IAudioData): void;
+  flush(): Promise<void>;
+  close(): void;
+}
 
-  return muLawCompressed;
+interface IWebCodecsAudio {
+  AudioEncoder: new (init: {
+    output: (chunk: IEncodedAudioChunk) => void;
+    error: (error: Error) => void;
+  }) => IAudioEncoder;
+  AudioData: new (init: {
+    format: 'f32';
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: Float32Array;
+  }) => IAudioData;
 }
 
-export const getBase64Audio = (audioData: Float32Array) => {
-  const pcmData = floatTo16BitPCM(audioData);
-  // Convert to µ-law
-  const muLawData = linearToMuLaw(pcmData);
-  // Convert to base64
-  const base64Data = btoa(
-    String.fromCharCode.apply(null, Array.from(muLawData))
-  );
+const hasWebCodecsAudio = (scope: object): scope is IWebCodecsAudio => {
+  const { AudioEncoder, AudioData } = scope as Partial<IWebCodecsAudio>;
+  return typeof AudioEncoder === 'function' && typeof AudioData === 'function';
+};
 
-  return base64Data;
+/**
+ * Opus encoder on the browser's built-in WebCodecs AudioEncoder (offline, no WASM download).
+ * Each payload holds the 20ms Opus packets encoded so far, each prefixed with its
+ * 2-byte big-endian length; `flush()` (capture stopped) returns the rest.
+ * Throws where WebCodecs is unavailable; pass a custom IWebVoiceAudioEncoder there.
+ */
+export const createOpusEncoder = (bitrate = 24000): IWebVoiceAudioEncoder => {
+  const scope: object = globalThis;
+  if (!hasWebCodecsAudio(scope)) {
+    throw new Error(
+      'Opus encoding requires WebCodecs AudioEncoder; pass a custom encoder as outputCodec'
+    );
+  }
+  const { AudioEncoder, AudioData } = scope;
+
+  let packets: Uint8Array[] = [];
+  let failure: Error | null = null;
+  let timestamp = 0;
+  let resampler: StreamingResampler | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const packet = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(packet);
+      packets.push(packet);
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels: 1,
+    bitrate,
+    opus: { frameDuration: 20_000 },
+  });
+
+  const takePackets = () => {
+    if (failure) throw failure;
+    const encoded = framePackets(packets);
+    packets = [];
+    return encoded;
+  };
+
+  return {
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    framing: 'length-prefixed',
+    async encode(samples, sampleRate) {
+      if (
+        sampleRate !== OPUS_SAMPLE_RATE &&
+        resampler?.inputRate !== sampleRate
+      ) {
+        resampler = new StreamingResampler(sampleRate, OPUS_SAMPLE_RATE);
+      }
+      const data =
+        sampleRate === OPUS_SAMPLE_RATE ? samples : resampler!.process(samples);
+      const audioData = new AudioData({
+        format: 'f32',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: data.length,
+        numberOfChannels: 1,
+        timestamp,
+        data,
+      });
+      timestamp += (data.length / OPUS_SAMPLE_RATE) * 1_000_000;
+
+      encoder.encode(audioData);
+      audioData.close();
+      // No flush per chunk: it would pad the partial 20ms frame with silence
+      return takePackets();
+    },
+    async flush() {
+      if (encoder.state === 'configured') await encoder.flush();
+      return takePackets();
+    },
+    close() {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+};
+
+/** Encoder for a built-in outbound codec. */
+export const createAudioEncoder = (
+  codec: WebVoiceCodec
+): IWebVoiceAudioEncoder => {
+  switch (codec) {
+    case 'mulaw':
+    case 'alaw':
+    case 'pcm16':
+      // Same encoder the worklet runs (see webVoiceDsp.ts)
+      return { codec, encode: (samples) => encodeAudioChunk(samples, codec) };
+    case 'opus':
+      return createOpusEncoder();
+    default:
+      throw new Error(`Unsupported output codec: ${codec}`);
+  }
 };
 
 export const resetAudioInput = (stream?: MediaStream) => {
   stream?.getTracks().forEach((track) => track.stop());
 };
 
-export const createWavHeader = (dataLength: number) => {
-  const buffer = new ArrayBuffer(44);
+/** Audio inputs from enumerateDevices. Labels are empty until mic permission is granted. */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'audioinput');
+};
+
+/** Audio outputs from enumerateDevices (for setOutputDevice). */
+export const listOutputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'audiooutput');
+};
+
+/** Size of the canonical 44-byte WAV header written by createWavHeader. */
+export const WAV_HEADER_SIZE = 44;
+
+const writeChunkId = (view: DataView, offset: number, id: string) => {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, id.charCodeAt(i));
+  }
+};
+
+export const createWavHeader = (
+  dataLength: number,
+  {
+    sampleRate = SAMPLE_RATE,
+    channels = CHANNELS,
+    bitsPerSample = BITS_PER_SAMPLE,
+    audioFormat = WAV_FORMAT.pcm,
+  }: Partial<IWavFormat> = {}
+) => {
+  const buffer = new ArrayBuffer(WAV_HEADER_SIZE);
   const view = new DataView(buffer);
+  const blockAlign = channels * (bitsPerSample / 8);
 
   // "RIFF" chunk descriptor
-  view.setUint8(0, 'R'.charCodeAt(0));
-  view.setUint8(1, 'I'.charCodeAt(0));
-  view.setUint8(2, 'F'.charCodeAt(0));
-  view.setUint8(3, 'F'.charCodeAt(0));
+  writeChunkId(view, 0, 'RIFF');
 
   // Total file size
   view.setUint32(4, dataLength + 36, true);
 
   // "WAVE" format
-  view.setUint8(8, 'W'.charCodeAt(0));
-  view.setUint8(9, 'A'.charCodeAt(0));
-  view.setUint8(10, 'V'.charCodeAt(0));
-  view.setUint8(11, 'E'.charCodeAt(0));
+  writeChunkId(view, 8, 'WAVE');
 
   // "fmt " sub-chunk
-  view.setUint8(12, 'f'.charCodeAt(0));
-  view.setUint8(13, 'm'.charCodeAt(0));
-  view.setUint8(14, 't'.charCodeAt(0));
-  view.setUint8(15, ' '.charCodeAt(0));
+  writeChunkId(view, 12, 'fmt ');
 
   view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
-  view.setUint16(22, CHANNELS, true); // NumChannels
-  view.setUint32(24, SAMPLE_RATE, true); // SampleRate
-  view.setUint32(28, SAMPLE_RATE * CHANNELS * (BITS_PER_SAMPLE / 8), true); // ByteRate
-  view.setUint16(32, CHANNELS * (BITS_PER_SAMPLE / 8), true); // BlockAlign
-  view.setUint16(34, BITS_PER_SAMPLE, true); // BitsPerSample
+  view.setUint16(20, audioFormat, true); // AudioFormat (1 for PCM)
+  view.setUint16(22, channels, true); // NumChannels
+  view.setUint32(24, sampleRate, true); // SampleRate
+  view.setUint32(28, sampleRate * blockAlign, true); // ByteRate
+  view.setUint16(32, blockAlign, true); // BlockAlign
+  view.setUint16(34, bitsPerSample, true); // BitsPerSample
 
   // "data" sub-chunk
-  view.setUint8(36, 'd'.charCodeAt(0));
-  view.setUint8(37, 'a'.charCodeAt(0));
-  view.setUint8(38, 't'.charCodeAt(0));
-  view.setUint8(39, 'a'.charCodeAt(0));
+  writeChunkId(view, 36, 'data');
 
   view.setUint32(40, dataLength, true); // Subchunk2Size
 
   return buffer;
 };
 
+/** Float or Int16 channels (equal length) → interleaved 16-bit PCM WAV Blob. */
+export const encodeWav = (
+  channels: (Float32Array | Int16Array)[],
+  sampleRate: number
+): Blob => {
+  const frames = channels[0]?.length ?? 0;
+  const interleaved = new Int16Array(frames * channels.length);
+  channels.forEach((channel, c) => {
+    const isInt16 = channel instanceof Int16Array;
+    for (let i = 0; i < frames; i++) {
+      interleaved[i * channels.length + c] = isInt16
+        ? channel[i]
+        : floatToInt16(channel[i]);
+    }
+  });
+
+  const bytes = pcm16ToBytes(interleaved);
+  const header = createWavHeader(bytes.length, {
+    sampleRate,
+    channels: channels.length,
+  });
+  return new Blob([header, bytes], { type: 'audio/wav' });
+};
+
 export const getAudioWorkletModule = () =>
   URL.createObjectURL(
     new Blob(
@@ -158,15 +343,6 @@ export const getAudioWorkletModule = () =>
     )
   );
 
-export const convertPCMDataToFloat32 = (pcm16Data: Int16Array) => {
-  const float32Data = new Float32Array(pcm16Data.length);
-  for (let i = 0; i < pcm16Data.length; i++) {
-    float32Data[i] = pcm16Data[i] / (pcm16Data[i] < 0 ? 0x8000 : 0x7fff);
-  }
-
-  return float32Data;
-};
-
 export const convertPCMDataWithWavHeaderToFloat32 = (pcm16Data: Int16Array) => {
   const wavHeader = createWavHeader(pcm16Data.byteLength);
   const headerView = new Int16Array(wavHeader);
@@ -196,36 +372,27 @@ export const WORKLET_NODE_OPTIONS = {
   channelCount: CHANNELS,
 };
 
+/** One-shot resample of a whole buffer (anti-aliased; edges are zero-padded). */
 export const resampleAudio = (
   audioData: Float32Array,
   originalSampleRate: number,
   targetSampleRate: number
 ): Float32Array => {
-  // Calculate the ratio between the two sample rates
-  const ratio = targetSampleRate / originalSampleRate;
-
-  // Calculate the length of the downsampled audio
-  const newLength = Math.floor(audioData.length * ratio);
-  const result = new Float32Array(newLength);
-
-  // Simple linear interpolation for downsampling
-  for (let i = 0; i < newLength; i++) {
-    // Find the position in the original array
-    const position = i / ratio;
-    const index = Math.floor(position);
-    const fraction = position - index;
-
-    // If we're at the end of the array, just use the last sample
-    if (index >= audioData.length - 1) {
-      result[i] = audioData[audioData.length - 1];
-    } else {
-      // Linear interpolation between the two nearest samples
-      result[i] =
-        audioData[index] * (1 - fraction) + audioData[index + 1] * fraction;
-    }
-  }
+  if (originalSampleRate === targetSampleRate) return audioData;
+
+  const resampler = new StreamingResampler(
+    originalSampleRate,
+    targetSampleRate
+  );
+  const newLength = Math.floor(
+    (audioData.length * targetSampleRate) / originalSampleRate
+  );
+
+  // Pad with silence so the filter's look-ahead reaches the last sample
+  const padded = new Float32Array(audioData.length + resampler.lookahead);
+  padded.set(audioData);
 
-  return result;
+  return resampler.process(padded).slice(0, newLength);
 };
 
 export const getVisualizerOptions = (